@@ -1,11 +1,19 @@
-import { serve } from "bun";
+import { serve, type ServerWebSocket } from "bun";
 import { existsSync } from "node:fs";
 import { randomUUID } from "node:crypto";
 import type { WebSocketMessage, WSData } from "./src/types";
 import { routes } from "./src/routes";
 import { errorResponse, withCors } from "./src/http";
 import { setPresence, touchLastSeen, validateToken } from "./src/supabase";
-import { users, activeCalls, rooms, roomChats } from "./src/state";
+import {
+  users,
+  activeCalls,
+  callSessions,
+  pendingDisconnects,
+  rooms,
+  roomChats,
+  type PendingDisconnect,
+} from "./src/state";
 import {
   broadcast,
   broadcastToRoom,
@@ -13,19 +21,74 @@ import {
   sendJson,
   sendToUser,
 } from "./src/ws";
-import { verifyGuestToken } from "./src/guestTokens";
+import {
+  getGuestMediaViolation,
+  getGuestSdpViolation,
+  resolveGuestIdentity,
+  verifyGuestToken,
+} from "./src/guestTokens";
+import { checkGuestLink } from "./src/guestLinks";
+import {
+  hasResumeSession,
+  openResumeSession,
+  pruneResumeSessions,
+  retainResumeChatRooms,
+  suspendResumeSession,
+} from "./src/sessionResume";
 import {
   handleJoinRoom,
+  getRoomTopic,
   handleLeaveRoom,
   isUserInAnyRoom,
   removeUserFromRooms,
+  resolveLobbyRequest,
+  updateRoomMediaState,
 } from "./src/rooms";
+import { leaveLobby } from "./src/roomLobby";
+import { isRoomArchived } from "./src/roomArchive";
+import { getRoomPins, setRoomMessagePinned } from "./src/roomPins";
+import {
+  unwatchAllVoiceChannels,
+  unwatchVoiceChannel,
+  watchVoiceChannel,
+} from "./src/voiceChannels";
+import { moderateRoom } from "./src/roomModeration";
+import { isBannedFromRoom } from "./src/roomBans";
+import { isRoomAdmin } from "./src/roomMembers";
+import { lowerHand, raiseHand } from "./src/roomHands";
+import { startMeetingReminders } from "./src/meetings";
+import { recordCallStats, resolveQualityCallId } from "./src/callQuality";
 import {
   canAccessRoomChat,
+  changeRoomMessage,
   getRoomMessages,
   storeRoomMessage,
 } from "./src/roomMessages";
-import { PRESENCE_HEARTBEAT_MS, PRESENCE_TTL_MS } from "./src/presence";
+import {
+  CALL_WAITING_ENABLED,
+  createCallSession,
+  endCallSession,
+  findCallBetween,
+  getCallPeerId,
+  getCallSocket,
+  getCurrentCall,
+  getUserCalls,
+  hasWaitingCall,
+  holdCallSession,
+  isCallParticipant,
+  markCallAnswered,
+  markCallConnected,
+  notifyOtherDevices,
+  repinCallSocket,
+  resolveCallSignal,
+  resumeCallSession,
+  sendToCallParticipant,
+} from "./src/calls";
+import {
+  PRESENCE_HEARTBEAT_MS,
+  PRESENCE_TTL_MS,
+  RECONNECT_GRACE_MS,
+} from "./src/presence";
 import { ROOM_MESSAGE_MAX_LENGTH, nowIso } from "./src/routes/shared";
 
 const port = process.env.PORT ?? 8080;
@@ -40,6 +103,29 @@ const tls =
     ? { cert: Bun.file(certPath), key: Bun.file(keyPath) }
     : undefined;
 const WS_OPEN_STATE = 1;
+const GUEST_BLOCKED_MESSAGE_TYPES = new Set([
+  "offer",
+  "answer",
+  "ice-candidate",
+  "hangup",
+  "screen-share",
+  "call-connected",
+  "call-waiting-accept",
+  "call-waiting-decline",
+  "call-resume",
+  "escalate-call",
+  "typing",
+  "call-on-hand",
+  "dismiss-hand",
+  "lobby-admit",
+  "lobby-deny",
+  "room-moderate",
+  "watch-voice-channel",
+  "room-pin",
+  "room-unpin",
+  "join-room",
+  "start-call",
+]);
 type PresenceStatus = "online" | "offline" | "in-call";
 
 const getConnectionCount = (userId: string) => users.get(userId)?.size ?? 0;
@@ -49,11 +135,127 @@ const resolvePresenceStatus = (userId: string): PresenceStatus => {
   return getConnectionCount(userId) > 0 ? "online" : "offline";
 };
 
+const isUserBusy = (userId: string) =>
+  activeCalls.has(userId) || isUserInAnyRoom(userId);
+
+const openCallSession = (
+  ws: ServerWebSocket<WSData>,
+  to: string,
+  callType?: string,
+) => {
+  const from = ws.data.userId;
+  const calleeBusy = isUserBusy(to);
+  if (
+    isUserBusy(from) ||
+    (calleeBusy && (!CALL_WAITING_ENABLED || hasWaitingCall(to)))
+  ) {
+    sendJson(ws, { type: "hangup", from: to, reason: "rejected" });
+    return null;
+  }
+  const session = createCallSession(ws, to, callType);
+  session.waiting = calleeBusy;
+  sendJson(ws, {
+    type: "call-started",
+    callId: session.id,
+    to,
+    callType: session.callType,
+    waiting: calleeBusy,
+  });
+  return session;
+};
+
 const updateUserStatus = async (userId: string, status: PresenceStatus) => {
   await setPresence(userId, status);
   broadcast({ type: "user-status", userId, status });
 };
 
+const finalizeDisconnect = async (
+  userId: string,
+  entry: PendingDisconnect,
+) => {
+  const isConnected = getConnectionCount(userId) > 0;
+  if (!entry.isGuest) {
+    let endedCall = false;
+    for (const callId of entry.callIds) {
+      const session = callSessions.get(callId);
+      if (!session) continue;
+      const pinnedSocket = getCallSocket(session, userId);
+      if (pinnedSocket ? pinnedSocket.readyState === WS_OPEN_STATE : isConnected) {
+        continue;
+      }
+      const peerId = getCallPeerId(session, userId);
+      endCallSession(session, { endedBy: userId, reason: "disconnected" });
+      endedCall = true;
+      void updateUserStatus(peerId, resolvePresenceStatus(peerId));
+      sendToCallParticipant(session, peerId, {
+        type: "hangup",
+        from: userId,
+        callId: session.id,
+        reason: "ended",
+      });
+    }
+    if (endedCall && isConnected) {
+      void updateUserStatus(userId, resolvePresenceStatus(userId));
+    }
+  }
+  if (isConnected) return;
+
+  await removeUserFromRooms(userId, { skipPresence: entry.isGuest });
+  for (const roomId of entry.chatRooms) {
+    const room = roomChats.get(roomId);
+    if (room) {
+      room.delete(userId);
+      if (room.size === 0) roomChats.delete(roomId);
+    }
+  }
+  retainResumeChatRooms(userId, entry.chatRooms);
+  if (!entry.isGuest) {
+    await updateUserStatus(userId, "offline");
+    broadcast({ type: "user-disconnected", userId }, userId);
+  }
+};
+
+const restorePendingDisconnect = (ws: ServerWebSocket<WSData>) => {
+  const { userId } = ws.data;
+  const pending = pendingDisconnects.get(userId);
+  if (!pending || pending.isGuest !== Boolean(ws.data.isGuest)) return null;
+  clearTimeout(pending.timer);
+  pendingDisconnects.delete(userId);
+
+  if (pending.roomId && rooms.get(pending.roomId)?.has(userId)) {
+    ws.data.roomId = pending.roomId;
+  }
+  const chatRooms = Array.from(pending.chatRooms).filter((roomId) =>
+    roomChats.get(roomId)?.has(userId),
+  );
+  if (chatRooms.length > 0) ws.data.chatRooms = new Set(chatRooms);
+
+  const callIds: string[] = [];
+  for (const callId of pending.callIds) {
+    const session = callSessions.get(callId);
+    if (!session) continue;
+    repinCallSocket(session, ws);
+    callIds.push(callId);
+  }
+  console.log(`[WSS] Restored session: ${userId}`);
+  return { callIds };
+};
+
+const restoreResumeChatRooms = async (
+  ws: ServerWebSocket<WSData>,
+  roomIds: string[],
+) => {
+  const { userId } = ws.data;
+  for (const roomId of roomIds) {
+    const access = await canAccessRoomChat(userId, roomId);
+    if (!access.ok) continue;
+    if (!roomChats.has(roomId)) roomChats.set(roomId, new Set());
+    roomChats.get(roomId)!.add(userId);
+    if (!ws.data.chatRooms) ws.data.chatRooms = new Set();
+    ws.data.chatRooms.add(roomId);
+  }
+};
+
 if (shouldAttemptTls && !hasTlsFiles) {
   console.warn(
     "[TLS] Enabled but cert/key files not found. Check TLS_CERT_PATH/TLS_KEY_PATH.",
@@ -62,6 +264,7 @@ if (shouldAttemptTls && !hasTlsFiles) {
 
 setInterval(() => {
   const now = Date.now();
+  pruneResumeSessions();
   for (const [userId, sockets] of users) {
     for (const ws of sockets) {
       const lastPongAt = ws.data.lastPongAt ?? 0;
@@ -77,6 +280,8 @@ setInterval(() => {
   }
 }, PRESENCE_HEARTBEAT_MS);
 
+startMeetingReminders();
+
 serve<WSData>({
   port,
   hostname: "0.0.0.0",
@@ -87,10 +292,13 @@ serve<WSData>({
     if (req.method === "OPTIONS") return withCors(new Response(null), req);
 
     if (url.pathname === "/ws") {
+      const resumeToken = url.searchParams.get("resume")?.trim() || undefined;
+      const sinceParam = url.searchParams.get("since");
+      const resumeSince = sinceParam ? Number(sinceParam) : undefined;
       const guestToken = url.searchParams.get("guest");
       if (guestToken) {
         const guestPayload = verifyGuestToken(guestToken);
-        if (!guestPayload) {
+        if (!guestPayload?.linkId) {
           return withCors(errorResponse("Unauthorized", 401), req);
         }
         const guestIdParam = url.searchParams.get("guestId")?.trim() ?? "";
@@ -98,12 +306,31 @@ serve<WSData>({
           guestIdParam.startsWith("guest:") && guestIdParam.length <= 128
             ? guestIdParam
             : `guest:${randomUUID()}`;
+        if (await isBannedFromRoom(guestPayload.roomId, guestId)) {
+          return withCors(errorResponse("Banned from room", 403), req);
+        }
+        if (
+          !(await checkGuestLink(guestPayload.linkId, guestPayload.roomId, {
+            consume: !hasResumeSession(guestId, resumeToken),
+          }))
+        ) {
+          return withCors(errorResponse("Unauthorized", 401), req);
+        }
+        const identity = resolveGuestIdentity(
+          guestPayload,
+          url.searchParams.get("displayName"),
+        );
         const upgraded = server.upgrade(req, {
           data: {
             userId: guestId,
             isGuest: true,
             guestRoomId: guestPayload.roomId,
             guestAllowPrivate: guestPayload.allowPrivate,
+            guestDisplayName: identity.displayName,
+            guestPermissions: identity.permissions,
+            guestLinkId: guestPayload.linkId,
+            resumeToken,
+            resumeSince,
           },
         });
         return upgraded
@@ -115,7 +342,9 @@ serve<WSData>({
       const userId = token ? await validateToken(token) : null;
       if (!userId) return withCors(errorResponse("Unauthorized", 401), req);
 
-      const upgraded = server.upgrade(req, { data: { userId } });
+      const upgraded = server.upgrade(req, {
+        data: { userId, resumeToken, resumeSince },
+      });
       return upgraded
         ? undefined
         : withCors(errorResponse("Upgrade failed", 500), req);
@@ -146,16 +375,50 @@ serve<WSData>({
       }
       sockets.add(ws);
 
-      if (isFirstConnection && !isGuest) {
+      const resume = openResumeSession(
+        userId,
+        ws.data.resumeToken,
+        ws.data.resumeSince,
+      );
+      ws.data.resumeToken = resume.token;
+      ws.data.resumeSince = undefined;
+      sendJson(ws, {
+        type: "session",
+        resumeToken: resume.token,
+        seq: resume.seq,
+      });
+      if (resume.resync) {
+        sendJson(ws, { type: "resync-required", seq: resume.seq });
+      } else {
+        for (const event of resume.events) sendJson(ws, event);
+      }
+
+      const restored = restorePendingDisconnect(ws);
+      if (restored) {
+        sendJson(ws, {
+          type: "session-restored",
+          roomId: ws.data.roomId ?? null,
+          callIds: restored.callIds,
+        });
+      }
+      await restoreResumeChatRooms(ws, resume.chatRooms);
+
+      if (isFirstConnection && !isGuest && !restored) {
         const status = resolvePresenceStatus(userId);
         await updateUserStatus(userId, status);
         broadcast({ type: "user-connected", userId }, userId);
       }
-      if (isGuest && ws.data.guestRoomId) {
+      if (
+        isGuest &&
+        ws.data.guestRoomId &&
+        ws.data.roomId !== ws.data.guestRoomId
+      ) {
         await handleJoinRoom(ws, ws.data.guestRoomId, {
           actor: {
             isGuest: true,
             allowPrivateBypass: Boolean(ws.data.guestAllowPrivate),
+            displayName: ws.data.guestDisplayName,
+            permissions: ws.data.guestPermissions,
           },
         });
       }
@@ -175,59 +438,267 @@ serve<WSData>({
           return;
         }
 
+        if (isGuest && GUEST_BLOCKED_MESSAGE_TYPES.has(data.type)) {
+          sendJson(ws, {
+            type: "error",
+            message: "Not allowed for guests",
+            action: data.type,
+          });
+          return;
+        }
+
         if (
           ["offer", "answer", "ice-candidate", "hangup", "screen-share"].includes(
             data.type,
           )
         ) {
-          if (isGuest) return;
           const from = ws.data.userId;
-          const to = data.to;
-          if (!to) return;
 
-          if (data.type === "offer") {
-            if (
-              activeCalls.has(to) ||
-              activeCalls.has(from) ||
-              isUserInAnyRoom(to) ||
-              isUserInAnyRoom(from)
-            ) {
-              sendToUser(from, {
-                type: "hangup",
-                from: to,
-                reason: "rejected",
+          if (
+            data.type === "offer" &&
+            !data.callId &&
+            data.to &&
+            !findCallBetween(from, data.to)
+          ) {
+            // Clients that skip `start-call` open the session with the offer.
+            const to = data.to;
+            if (to === from) return;
+            const session = openCallSession(ws, to, data.callType);
+            if (!session) return;
+            if (session.waiting) {
+              sendToUser(to, {
+                type: "call-waiting",
+                from,
+                callId: session.id,
+                callType: session.callType,
+              });
+            }
+            data.callId = session.id;
+          }
+
+          const signal = resolveCallSignal(ws, data);
+          if (!signal.ok) {
+            console.warn(
+              `[WSS] Rejected ${data.type} from ${from}: ${signal.error}`,
+            );
+            if (data.type !== "ice-candidate" && data.type !== "hangup") {
+              sendJson(ws, {
+                type: "error",
+                message: signal.error,
+                callId: data.callId,
               });
-              return;
             }
+            return;
           }
+          const { session, peerId } = signal;
 
-          if (data.type === "answer") {
-            activeCalls.set(from, to);
-            activeCalls.set(to, from);
+          if (data.type === "answer" && session.state === "ringing") {
+            markCallAnswered(session, ws);
             void updateUserStatus(from, "in-call");
-            void updateUserStatus(to, "in-call");
+            void updateUserStatus(peerId, "in-call");
           }
 
           if (data.type === "hangup") {
-            const peerId = activeCalls.get(from) ?? to;
-            activeCalls.delete(from);
-            if (peerId) activeCalls.delete(peerId);
-
-            const fromStatus = resolvePresenceStatus(from);
-            void updateUserStatus(from, fromStatus);
-            if (peerId) {
-              const peerStatus = resolvePresenceStatus(peerId);
-              void updateUserStatus(peerId, peerStatus);
+            if (session.state === "ringing" && from === session.calleeId) {
+              notifyOtherDevices(from, ws, {
+                type: "call-declined-elsewhere",
+                callId: session.id,
+              });
+            }
+            endCallSession(session, {
+              endedBy: from,
+              reason: typeof data.reason === "string" ? data.reason : undefined,
+            });
+            void updateUserStatus(from, resolvePresenceStatus(from));
+            void updateUserStatus(peerId, resolvePresenceStatus(peerId));
+          }
+
+          console.log(`[WSS] Signaling: ${data.type} to ${peerId}`);
+          sendToCallParticipant(session, peerId, {
+            ...data,
+            to: peerId,
+            from,
+            callId: session.id,
+          });
+          return;
+        }
+
+        if (data.type === "call-connected") {
+          const callId = typeof data.callId === "string" ? data.callId : "";
+          const session = callSessions.get(callId);
+          if (!session || !isCallParticipant(session, ws.data.userId)) return;
+          const pinnedSocket = getCallSocket(session, ws.data.userId);
+          if (pinnedSocket && pinnedSocket !== ws) return;
+          markCallConnected(session);
+          return;
+        }
+
+        if (
+          data.type === "call-waiting-accept" ||
+          data.type === "call-waiting-decline"
+        ) {
+          const from = ws.data.userId;
+          const callId = typeof data.callId === "string" ? data.callId : "";
+          const session = callSessions.get(callId);
+          if (
+            !session ||
+            !session.waiting ||
+            session.state !== "ringing" ||
+            session.calleeId !== from
+          ) {
+            sendJson(ws, { type: "error", message: "Call not found", callId });
+            return;
+          }
+
+          if (data.type === "call-waiting-decline") {
+            notifyOtherDevices(from, ws, {
+              type: "call-declined-elsewhere",
+              callId,
+            });
+            endCallSession(session, { endedBy: from, reason: "busy" });
+            sendToCallParticipant(session, session.callerId, {
+              type: "hangup",
+              from,
+              callId,
+              reason: "busy",
+            });
+            return;
+          }
+
+          const mode = data.mode === "end" ? "end" : "hold";
+          let current = getCurrentCall(from, callId);
+          while (current) {
+            const peerId = getCallPeerId(current, from);
+            if (mode === "hold") {
+              holdCallSession(current, from);
+              sendToCallParticipant(current, peerId, {
+                type: "call-held",
+                callId: current.id,
+                by: from,
+              });
+            } else {
+              endCallSession(current, { endedBy: from, reason: "ended" });
+              sendToCallParticipant(current, peerId, {
+                type: "hangup",
+                from,
+                callId: current.id,
+                reason: "ended",
+              });
+              void updateUserStatus(peerId, resolvePresenceStatus(peerId));
             }
+            current = getCurrentCall(from, callId);
+          }
+          for (const socket of users.get(from) ?? []) {
+            if (socket.data.roomId) await handleLeaveRoom(socket);
           }
+          session.waiting = false;
+          sendToCallParticipant(session, session.callerId, {
+            type: "call-waiting-accepted",
+            callId,
+          });
+          return;
+        }
 
-          console.log(`[WSS] Signaling: ${data.type} to ${to}`);
-          sendToUser(to, { ...data, from });
+        if (data.type === "call-resume") {
+          const from = ws.data.userId;
+          const callId = typeof data.callId === "string" ? data.callId : "";
+          const session = callSessions.get(callId);
+          if (!session || session.state !== "held" || session.heldBy !== from) {
+            sendJson(ws, { type: "error", message: "Call not found", callId });
+            return;
+          }
+          if (getCurrentCall(from, callId) || isUserInAnyRoom(from)) {
+            sendJson(ws, {
+              type: "error",
+              message: "Finish the current call first",
+              callId,
+            });
+            return;
+          }
+          const peerId = getCallPeerId(session, from);
+          resumeCallSession(session);
+          sendToCallParticipant(session, peerId, {
+            type: "call-resumed",
+            callId,
+            by: from,
+          });
+          void updateUserStatus(from, resolvePresenceStatus(from));
+          void updateUserStatus(peerId, resolvePresenceStatus(peerId));
+          return;
+        }
+
+        if (data.type === "escalate-call") {
+          const from = ws.data.userId;
+          const callId = typeof data.callId === "string" ? data.callId : "";
+          const session = callSessions.get(callId);
+          if (
+            !session ||
+            !isCallParticipant(session, from) ||
+            (session.state !== "connecting" && session.state !== "active")
+          ) {
+            sendJson(ws, { type: "error", message: "Call not found", callId });
+            return;
+          }
+          const pinnedSocket = getCallSocket(session, from);
+          if (pinnedSocket && pinnedSocket !== ws) return;
+          const peerId = getCallPeerId(session, from);
+          const peerSocket =
+            getCallSocket(session, peerId) ??
+            users.get(peerId)?.values().next().value;
+          if (!peerSocket) {
+            sendJson(ws, { type: "error", message: "Call peer offline", callId });
+            return;
+          }
+          const inviteeId =
+            typeof data.inviteeId === "string" ? data.inviteeId.trim() : "";
+          if (inviteeId === from || inviteeId === peerId) {
+            sendJson(ws, { type: "error", message: "Invalid invitee", callId });
+            return;
+          }
+
+          const roomId = randomUUID();
+          const roomName =
+            typeof data.name === "string" && data.name.trim()
+              ? data.name
+              : "Group call";
+          endCallSession(session, { endedBy: from, reason: "escalated" });
+          sendJson(ws, { type: "call-escalated", callId, roomId });
+          sendJson(peerSocket, { type: "call-escalated", callId, roomId });
+          await handleJoinRoom(ws, roomId, {
+            createIfMissing: true,
+            name: roomName,
+            callType: session.callType,
+          });
+          if (ws.data.roomId !== roomId) {
+            sendToCallParticipant(session, peerId, {
+              type: "hangup",
+              from,
+              callId,
+              reason: "ended",
+            });
+            void updateUserStatus(from, resolvePresenceStatus(from));
+            void updateUserStatus(peerId, resolvePresenceStatus(peerId));
+            return;
+          }
+          await handleJoinRoom(peerSocket, roomId, {
+            callType: session.callType,
+          });
+          void updateUserStatus(from, resolvePresenceStatus(from));
+          void updateUserStatus(peerId, resolvePresenceStatus(peerId));
+
+          if (inviteeId) {
+            sendToUser(inviteeId, {
+              type: "incoming-call",
+              from,
+              roomId,
+              roomName,
+              callType: session.callType,
+            });
+          }
           return;
         }
 
         if (data.type === "typing") {
-          if (isGuest) return;
           const from = ws.data.userId;
           const to = typeof data.to === "string" ? data.to : "";
           const isTyping = Boolean(data.isTyping);
@@ -243,10 +714,117 @@ serve<WSData>({
           if (!to || !roomId) return;
           const room = rooms.get(roomId);
           if (!room || !room.has(from) || !room.has(to)) return;
+          if (isGuest) {
+            const violation = getGuestSdpViolation(
+              ws.data.guestPermissions,
+              data,
+            );
+            if (violation) {
+              sendJson(ws, { type: "error", message: violation });
+              return;
+            }
+          }
           sendToUser(to, { ...data, from });
           return;
         }
 
+        if (data.type === "room-media-state") {
+          const roomId = typeof data.roomId === "string" ? data.roomId : "";
+          if (!roomId || ws.data.roomId !== roomId) return;
+          if (isGuest) {
+            const violation = getGuestMediaViolation(
+              ws.data.guestPermissions,
+              data,
+            );
+            if (violation) {
+              sendJson(ws, { type: "error", message: violation });
+              return;
+            }
+          }
+          const participant = updateRoomMediaState(
+            roomId,
+            ws.data.userId,
+            data,
+          );
+          if (!participant) return;
+          broadcastToRoom(roomId, {
+            type: "room-media-state",
+            roomId,
+            userId: participant.userId,
+            state: {
+              audioMuted: participant.audioMuted,
+              videoMuted: participant.videoMuted,
+              screenSharing: participant.screenSharing,
+            },
+          });
+          return;
+        }
+
+        if (data.type === "call-stats") {
+          const callId = resolveQualityCallId(ws.data.userId, data);
+          if (!callId || !data.stats || typeof data.stats !== "object") return;
+          recordCallStats(callId, ws.data.userId, data.stats);
+          return;
+        }
+
+        if (data.type === "raise-hand" || data.type === "lower-hand") {
+          const roomId = typeof data.roomId === "string" ? data.roomId : "";
+          if (!roomId || ws.data.roomId !== roomId) return;
+          if (data.type === "raise-hand") {
+            raiseHand(roomId, ws.data.userId);
+          } else {
+            lowerHand(roomId, ws.data.userId);
+          }
+          return;
+        }
+
+        if (data.type === "call-on-hand" || data.type === "dismiss-hand") {
+          const roomId = typeof data.roomId === "string" ? data.roomId : "";
+          const targetId = typeof data.userId === "string" ? data.userId : "";
+          if (!roomId || !targetId) return;
+          const adminCheck = await isRoomAdmin(roomId, ws.data.userId);
+          if (!adminCheck.ok) {
+            sendJson(ws, { type: "error", message: "Forbidden" });
+            return;
+          }
+          const isCallOn = data.type === "call-on-hand";
+          const lowered = lowerHand(roomId, targetId, {
+            reason: isCallOn ? "called-on" : "dismissed",
+            by: ws.data.userId,
+          });
+          if (!lowered) return;
+          sendToUser(targetId, {
+            type: isCallOn ? "hand-called-on" : "hand-dismissed",
+            roomId,
+            by: ws.data.userId,
+          });
+          return;
+        }
+
+        if (data.type === "lobby-admit" || data.type === "lobby-deny") {
+          const roomId = typeof data.roomId === "string" ? data.roomId : "";
+          const targetId = typeof data.userId === "string" ? data.userId : "";
+          if (!roomId || !targetId) return;
+          const result = await resolveLobbyRequest(
+            ws.data.userId,
+            roomId,
+            targetId,
+            data.type === "lobby-admit" ? "admit" : "deny",
+          );
+          if (!result.ok) {
+            sendJson(ws, { type: "error", message: result.error });
+          }
+          return;
+        }
+
+        if (data.type === "room-moderate") {
+          const result = await moderateRoom(ws.data.userId, data);
+          if (!result.ok) {
+            sendJson(ws, { type: "error", message: result.error });
+          }
+          return;
+        }
+
         if (data.type === "join-room-chat") {
           const roomId = typeof data.roomId === "string" ? data.roomId : "";
           if (!roomId) return;
@@ -264,7 +842,49 @@ serve<WSData>({
           ws.data.chatRooms.add(roomId);
 
           const history = await getRoomMessages(roomId);
-          sendJson(ws, { type: "room-messages", roomId, messages: history });
+          const pins = await getRoomPins(roomId);
+          const { topic, description } = await getRoomTopic(roomId);
+          sendJson(ws, {
+            type: "room-messages",
+            roomId,
+            messages: history,
+            topic,
+            description,
+            pins,
+          });
+          return;
+        }
+
+        if (data.type === "watch-voice-channel") {
+          const roomId = typeof data.roomId === "string" ? data.roomId : "";
+          if (!roomId) return;
+          const result = await watchVoiceChannel(ws, roomId);
+          if (!result.ok) {
+            sendJson(ws, { type: "error", message: result.error });
+          }
+          return;
+        }
+
+        if (data.type === "unwatch-voice-channel") {
+          const roomId = typeof data.roomId === "string" ? data.roomId : "";
+          if (roomId) unwatchVoiceChannel(ws, roomId);
+          return;
+        }
+
+        if (data.type === "room-pin" || data.type === "room-unpin") {
+          const roomId = typeof data.roomId === "string" ? data.roomId : "";
+          const messageId =
+            typeof data.messageId === "string" ? data.messageId : "";
+          if (!roomId || !messageId) return;
+          const result = await setRoomMessagePinned(
+            ws.data.userId,
+            roomId,
+            messageId,
+            data.type === "room-pin",
+          );
+          if (!result.ok) {
+            sendJson(ws, { type: "error", message: result.error });
+          }
           return;
         }
 
@@ -280,10 +900,65 @@ serve<WSData>({
           return;
         }
 
+        if (
+          data.type === "room-message-edit" ||
+          data.type === "room-message-delete"
+        ) {
+          const roomId = typeof data.roomId === "string" ? data.roomId : "";
+          const messageId =
+            typeof data.messageId === "string" ? data.messageId : "";
+          if (!roomId || !messageId) return;
+          if (isGuest && !ws.data.guestPermissions?.chat) {
+            sendJson(ws, {
+              type: "error",
+              message: "Chat is not allowed for this guest",
+            });
+            return;
+          }
+          const isEdit = data.type === "room-message-edit";
+          const body = typeof data.body === "string" ? data.body.trim() : "";
+          if (isEdit && !body) return;
+          if (body.length > ROOM_MESSAGE_MAX_LENGTH) {
+            sendJson(ws, { type: "error", message: "Message too long" });
+            return;
+          }
+          const access = await canAccessRoomChat(ws.data.userId, roomId);
+          if (!access.ok) {
+            sendJson(ws, {
+              type: "error",
+              message: access.error ?? "Room access denied",
+            });
+            return;
+          }
+          const result = await changeRoomMessage(
+            ws.data.userId,
+            roomId,
+            messageId,
+            isEdit ? { body } : { delete: true },
+          );
+          if (!result.ok) {
+            sendJson(ws, { type: "error", message: result.error });
+            return;
+          }
+          broadcastToRoomChat(roomId, {
+            type: isEdit ? "room-message-updated" : "room-message-deleted",
+            roomId,
+            message: result.message,
+          });
+          return;
+        }
+
         if (data.type === "room-message") {
           const from = ws.data.userId;
           const roomId = typeof data.roomId === "string" ? data.roomId : "";
           if (!roomId) return;
+          if (isGuest && !ws.data.guestPermissions?.chat) {
+            sendJson(ws, {
+              type: "error",
+              message: "Chat is not allowed for this guest",
+            });
+            return;
+          }
           const access = await canAccessRoomChat(from, roomId);
           if (!access.ok) {
             sendJson(ws, {
@@ -292,6 +967,10 @@ serve<WSData>({
             });
             return;
           }
+          if (await isRoomArchived(roomId)) {
+            sendJson(ws, { type: "error", message: "Room archived" });
+            return;
+          }
           const body = typeof data.body === "string" ? data.body.trim() : "";
           if (!body) return;
           if (body.length > ROOM_MESSAGE_MAX_LENGTH) {
@@ -316,18 +995,17 @@ serve<WSData>({
 
         switch (data.type) {
           case "join-room":
-            if (isGuest) {
-              break;
-            }
             if (!data.roomId) {
               sendJson(ws, { type: "error", message: "Room not found" });
               break;
             }
             await handleJoinRoom(ws, data.roomId, {
               createIfMissing: Boolean(data.create),
+              callType: data.callType,
               name: data.name,
               isPrivate: data.isPrivate,
               password: data.password,
+              roomType: data.roomType,
             });
             void updateUserStatus(
               ws.data.userId,
@@ -335,6 +1013,7 @@ serve<WSData>({
             );
             break;
           case "leave-room":
+            await leaveLobby(ws);
             await handleLeaveRoom(ws, { skipPresence: isGuest });
             if (!isGuest) {
               void updateUserStatus(
@@ -343,14 +1022,21 @@ serve<WSData>({
               );
             }
             break;
-          case "start-call":
-            if (isGuest) break;
-            sendToUser(data.receiverId!, {
-              type: "incoming-call",
-              from: ws.data.userId,
+          case "start-call": {
+            const from = ws.data.userId;
+            const to =
+              typeof data.receiverId === "string" ? data.receiverId : "";
+            if (!to || to === from) break;
+            const session = openCallSession(ws, to, data.callType);
+            if (!session) break;
+            sendToUser(to, {
+              type: session.waiting ? "call-waiting" : "incoming-call",
+              from,
+              callId: session.id,
               callType: data.callType,
             });
             break;
+          }
         }
       } catch (e) {
         console.error("Message error:", e);
@@ -366,34 +1052,40 @@ serve<WSData>({
         if (sockets.size === 0) users.delete(userId);
       }
       const isLastConnection = !sockets || sockets.size === 0;
-      if (isLastConnection) {
-        await removeUserFromRooms(userId, { skipPresence: isGuest });
-        if (ws.data.chatRooms) {
-          for (const roomId of ws.data.chatRooms) {
-            const room = roomChats.get(roomId);
-            if (room) {
-              room.delete(userId);
-              if (room.size === 0) roomChats.delete(roomId);
-            }
-          }
-          ws.data.chatRooms.clear();
-        }
-        if (!isGuest) {
-          const peerId = activeCalls.get(userId);
-          if (peerId) {
-            activeCalls.delete(userId);
-            activeCalls.delete(peerId);
-            const peerStatus = resolvePresenceStatus(peerId);
-            void updateUserStatus(peerId, peerStatus);
-            sendToUser(peerId, {
-              type: "hangup",
-              from: userId,
-              reason: "ended",
-            });
-          }
-          await updateUserStatus(userId, "offline");
-          broadcast({ type: "user-disconnected", userId }, userId);
-        }
+      await leaveLobby(ws);
+      unwatchAllVoiceChannels(ws);
+      const callIds = isGuest
+        ? []
+        : getUserCalls(userId)
+            .filter((session) => {
+              const pinnedSocket = getCallSocket(session, userId);
+              return pinnedSocket ? pinnedSocket === ws : isLastConnection;
+            })
+            .map((session) => session.id);
+
+      const pending = pendingDisconnects.get(userId);
+      if (pending) clearTimeout(pending.timer);
+      const entry: PendingDisconnect = {
+        isGuest,
+        roomId: pending?.roomId ?? ws.data.roomId,
+        chatRooms: new Set([
+          ...(pending?.chatRooms ?? []),
+          ...(ws.data.chatRooms ?? []),
+        ]),
+        callIds: new Set([...(pending?.callIds ?? []), ...callIds]),
+      };
+      ws.data.chatRooms?.clear();
+      if (isLastConnection) suspendResumeSession(userId);
+
+      if (RECONNECT_GRACE_MS <= 0) {
+        pendingDisconnects.delete(userId);
+        await finalizeDisconnect(userId, entry);
+      } else {
+        entry.timer = setTimeout(() => {
+          pendingDisconnects.delete(userId);
+          void finalizeDisconnect(userId, entry);
+        }, RECONNECT_GRACE_MS);
+        pendingDisconnects.set(userId, entry);
       }
       console.log(`[WSS] Disconnected: ${userId}`);
     },
@@ -0,0 +1,20 @@
+create table if not exists public.call_quality_reports (
+  id uuid primary key default gen_random_uuid(),
+  call_id uuid not null,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  samples integer not null default 0,
+  avg_rtt_ms numeric null,
+  max_rtt_ms numeric null,
+  avg_jitter_ms numeric null,
+  max_jitter_ms numeric null,
+  avg_packet_loss_percent numeric null,
+  max_packet_loss_percent numeric null,
+  avg_bitrate_kbps numeric null,
+  min_bitrate_kbps numeric null,
+  candidate_types text[] not null default '{}',
+  first_sample_at timestamptz not null,
+  last_sample_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists call_quality_reports_call_id_idx on public.call_quality_reports (call_id);
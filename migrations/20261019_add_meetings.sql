@@ -0,0 +1,17 @@
+create table if not exists public.meetings (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  title text not null,
+  starts_at timestamptz not null,
+  duration_minutes integer not null,
+  invitee_ids uuid[] not null default '{}',
+  created_by uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  reminded_at timestamptz null,
+  constraint meetings_duration_check check (duration_minutes > 0)
+);
+
+create index if not exists meetings_room_id_idx on public.meetings (room_id);
+create index if not exists meetings_created_by_idx on public.meetings (created_by);
+create index if not exists meetings_starts_at_idx on public.meetings (starts_at);
+create index if not exists meetings_invitee_ids_idx on public.meetings using gin (invitee_ids);
@@ -0,0 +1,4 @@
+alter table public.rooms
+  add column if not exists archived_at timestamptz null;
+
+create index if not exists rooms_archived_at_idx on public.rooms (archived_at);
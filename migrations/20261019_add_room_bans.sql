@@ -0,0 +1,9 @@
+create table if not exists public.room_bans (
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  banned_by uuid null references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint room_bans_pkey primary key (room_id, user_id)
+);
+
+create index if not exists room_bans_user_id_idx on public.room_bans (user_id);
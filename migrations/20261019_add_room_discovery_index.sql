@@ -0,0 +1 @@
+create index if not exists rooms_discovery_idx on public.rooms (updated_at desc, id desc) where archived_at is null;
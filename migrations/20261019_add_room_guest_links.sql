@@ -0,0 +1,14 @@
+create table if not exists public.room_guest_links (
+  id uuid primary key,
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  created_by uuid not null references public.profiles (id) on delete cascade,
+  label text null,
+  max_uses integer null,
+  use_count integer not null default 0,
+  expires_at timestamptz not null,
+  revoked_at timestamptz null,
+  created_at timestamptz not null default now(),
+  constraint room_guest_links_max_uses_check check (max_uses is null or max_uses > 0)
+);
+
+create index if not exists room_guest_links_room_id_idx on public.room_guest_links (room_id);
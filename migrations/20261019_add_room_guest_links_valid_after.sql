@@ -0,0 +1,2 @@
+alter table public.rooms
+  add column if not exists guest_links_valid_after timestamptz null;
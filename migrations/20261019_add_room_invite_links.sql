@@ -0,0 +1,22 @@
+create table if not exists public.room_invite_links (
+  id uuid primary key,
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  created_by uuid not null references public.profiles (id) on delete cascade,
+  max_uses integer null,
+  use_count integer not null default 0,
+  expires_at timestamptz not null,
+  revoked_at timestamptz null,
+  created_at timestamptz not null default now(),
+  constraint room_invite_links_max_uses_check check (max_uses is null or max_uses > 0)
+);
+
+create table if not exists public.room_invite_link_uses (
+  id uuid primary key default gen_random_uuid(),
+  link_id uuid not null references public.room_invite_links (id) on delete cascade,
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  accepted_at timestamptz not null default now()
+);
+
+create index if not exists room_invite_links_room_id_idx on public.room_invite_links (room_id);
+create index if not exists room_invite_link_uses_link_id_idx on public.room_invite_link_uses (link_id);
@@ -0,0 +1,2 @@
+alter table public.rooms
+  add column if not exists lobby_enabled boolean not null default false;
@@ -0,0 +1,3 @@
+alter table public.room_messages
+  add column if not exists edited_at timestamptz null,
+  add column if not exists deleted_at timestamptz null;
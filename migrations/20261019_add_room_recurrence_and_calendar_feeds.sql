@@ -0,0 +1,10 @@
+alter table public.rooms
+  add column if not exists recurrence_rule text null,
+  add column if not exists recurrence_starts_at timestamptz null,
+  add column if not exists recurrence_duration_minutes integer null;
+
+create table if not exists public.calendar_feed_tokens (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,11 @@
+alter table public.rooms
+  add column if not exists topic text null,
+  add column if not exists description text null;
+
+create table if not exists public.room_pinned_messages (
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  message_id uuid not null,
+  pinned_by uuid null references public.profiles (id) on delete set null,
+  pinned_at timestamptz not null default now(),
+  constraint room_pinned_messages_pkey primary key (room_id, message_id)
+);
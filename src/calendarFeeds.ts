@@ -0,0 +1,172 @@
+import { randomBytes } from "node:crypto";
+import { calendarFeedTokensByUser } from "./state";
+import { supabase } from "./supabase";
+import type { RoomRecurrence } from "./roomRecurrence";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+  nowIso,
+} from "./routes/shared";
+
+export interface CalendarRoomEvent {
+  roomId: string;
+  name: string;
+  recurrence: RoomRecurrence;
+  joinUrl: string;
+  guestUrl?: string;
+}
+
+const ICS_LINE_LIMIT = 75;
+const APP_BASE_URL = (process.env.APP_BASE_URL ?? "https://serezha.kz").replace(
+  /\/+$/,
+  "",
+);
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+const createFeedToken = () => randomBytes(24).toString("base64url");
+
+export const getCalendarFeedToken = async (
+  userId: string,
+  options?: { rotate?: boolean },
+) => {
+  if (!options?.rotate) {
+    const existing = calendarFeedTokensByUser.get(userId);
+    if (existing) return existing;
+  }
+  try {
+    if (!options?.rotate) {
+      const { data, error } = await supabase
+        .from("calendar_feed_tokens")
+        .select("token")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (error && !isMissingStorageError(error)) {
+        console.warn("[CalendarFeed] Lookup failed:", error.message ?? error);
+      }
+      if (data?.token) return data.token as string;
+    }
+
+    const token = createFeedToken();
+    const { error } = await supabase
+      .from("calendar_feed_tokens")
+      .upsert(
+        { user_id: userId, token, created_at: nowIso() },
+        { onConflict: "user_id" },
+      );
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn("[CalendarFeed] Upsert failed:", error.message ?? error);
+      }
+      calendarFeedTokensByUser.set(userId, token);
+    } else {
+      calendarFeedTokensByUser.delete(userId);
+    }
+    return token;
+  } catch (err) {
+    console.warn("[CalendarFeed] Token error:", err);
+    const token = createFeedToken();
+    calendarFeedTokensByUser.set(userId, token);
+    return token;
+  }
+};
+
+export const resolveCalendarFeedUser = async (token: string) => {
+  for (const [userId, feedToken] of calendarFeedTokensByUser) {
+    if (feedToken === token) return userId;
+  }
+  try {
+    const { data, error } = await supabase
+      .from("calendar_feed_tokens")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn("[CalendarFeed] Lookup failed:", error.message ?? error);
+      }
+      return null;
+    }
+    return (data?.user_id as string | undefined) ?? null;
+  } catch (err) {
+    console.warn("[CalendarFeed] Lookup error:", err);
+    return null;
+  }
+};
+
+export const buildRoomJoinUrl = (roomId: string, guestToken?: string) => {
+  const url = `${APP_BASE_URL}/room/${encodeURIComponent(roomId)}`;
+  return guestToken ? `${url}?guest=${encodeURIComponent(guestToken)}` : url;
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+};
+
+const formatIcsDate = (value: string | number) =>
+  new Date(value)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+export const buildRoomCalendar = (
+  events: CalendarRoomEvent[],
+  options: { calendarName: string; host: string },
+) => {
+  const stamp = formatIcsDate(Date.now());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Rooms//Calendar Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+  ];
+  for (const event of events) {
+    const description = [`Join: ${event.joinUrl}`];
+    if (event.guestUrl) description.push(`Guest link: ${event.guestUrl}`);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:room-${event.roomId}@${options.host}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDate(event.recurrence.startsAt)}`,
+      `DURATION:PT${event.recurrence.durationMinutes}M`,
+      `RRULE:${event.recurrence.rule}`,
+      `SUMMARY:${escapeText(event.name)}`,
+      `DESCRIPTION:${escapeText(description.join("\n"))}`,
+      `URL:${event.joinUrl}`,
+      `LOCATION:${escapeText(event.joinUrl)}`,
+      "END:VEVENT",
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
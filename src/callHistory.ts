@@ -0,0 +1,154 @@
+import { randomUUID } from "node:crypto";
+import type { CallHistoryStatus, CallKind, CallSession } from "./types";
+import { supabase } from "./supabase";
+import { callHistoryByUser, roomCallLogs, type InMemoryCallLog } from "./state";
+import {
+  CALL_HISTORY_LIMIT,
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+  normalizeCallType,
+} from "./routes/shared";
+import { flushCallQuality } from "./callQuality";
+
+export interface CallHistoryEntry {
+  id: string;
+  callerId: string;
+  receiverId: string;
+  roomId?: string | null;
+  status: CallHistoryStatus;
+  callType: CallKind;
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+}
+
+const isGuestId = (userId: string) => userId.startsWith("guest:");
+
+const pushFallbackLog = (userId: string, log: InMemoryCallLog) => {
+  const existing = callHistoryByUser.get(userId) || [];
+  existing.unshift(log);
+  callHistoryByUser.set(userId, existing.slice(0, CALL_HISTORY_LIMIT));
+};
+
+const storeCallHistoryFallback = (entry: CallHistoryEntry) => {
+  const base = {
+    id: entry.id,
+    room_id: entry.roomId ?? null,
+    status: entry.status,
+    duration_seconds: entry.durationSeconds,
+    call_type: entry.callType,
+    started_at: entry.startedAt,
+    ended_at: entry.endedAt,
+  };
+  if (entry.roomId) {
+    pushFallbackLog(entry.callerId, {
+      ...base,
+      peer_id: null,
+      direction: "outgoing",
+    });
+    return;
+  }
+  pushFallbackLog(entry.callerId, {
+    ...base,
+    peer_id: entry.receiverId,
+    direction: "outgoing",
+  });
+  pushFallbackLog(entry.receiverId, {
+    ...base,
+    peer_id: entry.callerId,
+    direction: "incoming",
+  });
+};
+
+export const recordCallHistory = async (entry: CallHistoryEntry) => {
+  if (isGuestId(entry.callerId) || isGuestId(entry.receiverId)) return;
+  try {
+    const payload: Record<string, any> = {
+      id: entry.id,
+      caller_id: entry.callerId,
+      receiver_id: entry.receiverId,
+      status: entry.status,
+      duration: entry.durationSeconds,
+      call_type: entry.callType,
+      started_at: entry.startedAt,
+      ended_at: entry.endedAt,
+    };
+    if (entry.roomId) payload.room_id = entry.roomId;
+    const { error } = await supabase.from("call_history").insert(payload);
+    if (error) {
+      if (
+        error.code !== MISSING_TABLE_ERROR_CODE &&
+        error.code !== MISSING_COLUMN_ERROR_CODE
+      ) {
+        console.warn("[CallHistory] Insert failed:", error.message ?? error);
+      }
+      storeCallHistoryFallback(entry);
+    }
+  } catch (err) {
+    console.warn("[CallHistory] Insert error:", err);
+    storeCallHistoryFallback(entry);
+  }
+};
+
+const toDurationSeconds = (from: number, to: number) =>
+  Math.max(0, Math.floor((to - from) / 1000));
+
+export const recordCallSession = (
+  session: CallSession,
+  status: CallHistoryStatus,
+) => {
+  const endedAt = session.endedAt ?? Date.now();
+  void flushCallQuality(session.id);
+  return recordCallHistory({
+    id: session.id,
+    callerId: session.callerId,
+    receiverId: session.calleeId,
+    status,
+    callType: session.callType,
+    startedAt: new Date(session.createdAt).toISOString(),
+    endedAt: new Date(endedAt).toISOString(),
+    durationSeconds: session.answeredAt
+      ? toDurationSeconds(session.answeredAt, endedAt)
+      : 0,
+  });
+};
+
+export const startRoomCallLog = (
+  roomId: string,
+  userId: string,
+  callType?: string,
+) => {
+  if (isGuestId(userId)) return;
+  let logs = roomCallLogs.get(roomId);
+  if (!logs) {
+    logs = new Map();
+    roomCallLogs.set(roomId, logs);
+  }
+  if (logs.has(userId)) return;
+  logs.set(userId, {
+    id: randomUUID(),
+    startedAt: Date.now(),
+    callType: normalizeCallType(callType),
+  });
+};
+
+export const finishRoomCallLog = (roomId: string, userId: string) => {
+  const logs = roomCallLogs.get(roomId);
+  const log = logs?.get(userId);
+  if (!logs || !log) return;
+  logs.delete(userId);
+  if (logs.size === 0) roomCallLogs.delete(roomId);
+  const endedAt = Date.now();
+  void flushCallQuality(log.id);
+  void recordCallHistory({
+    id: log.id,
+    callerId: userId,
+    receiverId: userId,
+    roomId,
+    status: "completed",
+    callType: log.callType,
+    startedAt: new Date(log.startedAt).toISOString(),
+    endedAt: new Date(endedAt).toISOString(),
+    durationSeconds: toDurationSeconds(log.startedAt, endedAt),
+  });
+};
@@ -0,0 +1,247 @@
+import {
+  callHistoryByUser,
+  callQualityByCall,
+  callQualityReportsByCall,
+  callSessions,
+  roomCallLogs,
+  type CallQualityAggregate,
+  type CallQualityMetric,
+  type InMemoryCallQualityReport,
+} from "./state";
+import { supabase } from "./supabase";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+} from "./routes/shared";
+
+export type CallQualityReport = InMemoryCallQualityReport;
+export type CallQualityRating = "good" | "fair" | "poor";
+
+const MIN_SAMPLE_INTERVAL_MS = 1000;
+const FALLBACK_REPORT_LIMIT = 500;
+const CANDIDATE_TYPES = new Set(["host", "srflx", "prflx", "relay"]);
+const REPORT_SELECT =
+  "call_id, user_id, samples, avg_rtt_ms, max_rtt_ms, avg_jitter_ms, max_jitter_ms, avg_packet_loss_percent, max_packet_loss_percent, avg_bitrate_kbps, min_bitrate_kbps, candidate_types, first_sample_at, last_sample_at";
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+const createMetric = (): CallQualityMetric => ({
+  count: 0,
+  total: 0,
+  min: Number.POSITIVE_INFINITY,
+  max: 0,
+});
+
+const readMetric = (value: unknown, max: number) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    return null;
+  }
+  return Math.min(value, max);
+};
+
+const addToMetric = (metric: CallQualityMetric, value: number | null) => {
+  if (value === null) return;
+  metric.count += 1;
+  metric.total += value;
+  metric.min = Math.min(metric.min, value);
+  metric.max = Math.max(metric.max, value);
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const metricAverage = (metric: CallQualityMetric) =>
+  metric.count > 0 ? round(metric.total / metric.count) : null;
+
+export const resolveQualityCallId = (
+  userId: string,
+  request: { callId?: unknown; roomId?: unknown },
+) => {
+  if (typeof request.callId === "string" && request.callId) {
+    const session = callSessions.get(request.callId);
+    if (!session) return null;
+    if (session.callerId !== userId && session.calleeId !== userId) return null;
+    return session.id;
+  }
+  if (typeof request.roomId === "string" && request.roomId) {
+    return roomCallLogs.get(request.roomId)?.get(userId)?.id ?? null;
+  }
+  return null;
+};
+
+export const recordCallStats = (
+  callId: string,
+  userId: string,
+  stats: Record<string, unknown>,
+) => {
+  const rtt = readMetric(stats.rttMs, 60_000);
+  const jitter = readMetric(stats.jitterMs, 60_000);
+  const packetLoss = readMetric(stats.packetLossPercent, 100);
+  const bitrate = readMetric(stats.bitrateKbps, 1_000_000);
+  const candidateType =
+    typeof stats.candidateType === "string" &&
+    CANDIDATE_TYPES.has(stats.candidateType)
+      ? stats.candidateType
+      : null;
+  if (
+    rtt === null &&
+    jitter === null &&
+    packetLoss === null &&
+    bitrate === null
+  ) {
+    return false;
+  }
+
+  let participants = callQualityByCall.get(callId);
+  if (!participants) {
+    participants = new Map();
+    callQualityByCall.set(callId, participants);
+  }
+  const now = Date.now();
+  let aggregate = participants.get(userId);
+  if (!aggregate) {
+    aggregate = {
+      samples: 0,
+      rtt: createMetric(),
+      jitter: createMetric(),
+      packetLoss: createMetric(),
+      bitrate: createMetric(),
+      candidateTypes: new Set(),
+      firstSampleAt: now,
+      lastSampleAt: 0,
+    };
+    participants.set(userId, aggregate);
+  }
+  if (now - aggregate.lastSampleAt < MIN_SAMPLE_INTERVAL_MS) return false;
+
+  aggregate.samples += 1;
+  aggregate.lastSampleAt = now;
+  addToMetric(aggregate.rtt, rtt);
+  addToMetric(aggregate.jitter, jitter);
+  addToMetric(aggregate.packetLoss, packetLoss);
+  addToMetric(aggregate.bitrate, bitrate);
+  if (candidateType) aggregate.candidateTypes.add(candidateType);
+  return true;
+};
+
+const summarizeAggregate = (
+  callId: string,
+  userId: string,
+  aggregate: CallQualityAggregate,
+): CallQualityReport => ({
+  call_id: callId,
+  user_id: userId,
+  samples: aggregate.samples,
+  avg_rtt_ms: metricAverage(aggregate.rtt),
+  max_rtt_ms: aggregate.rtt.count > 0 ? aggregate.rtt.max : null,
+  avg_jitter_ms: metricAverage(aggregate.jitter),
+  max_jitter_ms: aggregate.jitter.count > 0 ? aggregate.jitter.max : null,
+  avg_packet_loss_percent: metricAverage(aggregate.packetLoss),
+  max_packet_loss_percent:
+    aggregate.packetLoss.count > 0 ? aggregate.packetLoss.max : null,
+  avg_bitrate_kbps: metricAverage(aggregate.bitrate),
+  min_bitrate_kbps: aggregate.bitrate.count > 0 ? aggregate.bitrate.min : null,
+  candidate_types: Array.from(aggregate.candidateTypes),
+  first_sample_at: new Date(aggregate.firstSampleAt).toISOString(),
+  last_sample_at: new Date(aggregate.lastSampleAt).toISOString(),
+});
+
+export const rateCallQuality = (
+  report: CallQualityReport,
+): CallQualityRating | null => {
+  if (report.samples === 0) return null;
+  const rtt = report.avg_rtt_ms ?? 0;
+  const jitter = report.avg_jitter_ms ?? 0;
+  const packetLoss = report.avg_packet_loss_percent ?? 0;
+  if (rtt > 400 || jitter > 50 || packetLoss > 5) return "poor";
+  if (rtt > 200 || jitter > 30 || packetLoss > 2) return "fair";
+  return "good";
+};
+
+const storeReportsFallback = (callId: string, reports: CallQualityReport[]) => {
+  callQualityReportsByCall.set(callId, reports);
+  if (callQualityReportsByCall.size > FALLBACK_REPORT_LIMIT) {
+    const oldest = callQualityReportsByCall.keys().next().value;
+    if (oldest) callQualityReportsByCall.delete(oldest);
+  }
+};
+
+export const flushCallQuality = async (callId: string) => {
+  const participants = callQualityByCall.get(callId);
+  if (!participants) return;
+  callQualityByCall.delete(callId);
+  const reports = Array.from(participants, ([userId, aggregate]) =>
+    summarizeAggregate(callId, userId, aggregate),
+  ).filter((report) => report.samples > 0);
+  if (reports.length === 0) return;
+
+  try {
+    const { error } = await supabase
+      .from("call_quality_reports")
+      .insert(reports);
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn("[CallQuality] Insert failed:", error.message ?? error);
+      }
+      storeReportsFallback(callId, reports);
+    }
+  } catch (err) {
+    console.warn("[CallQuality] Insert error:", err);
+    storeReportsFallback(callId, reports);
+  }
+};
+
+export const getCallQualityReports = async (callId: string) => {
+  const live = Array.from(
+    callQualityByCall.get(callId) ?? [],
+    ([userId, aggregate]) => summarizeAggregate(callId, userId, aggregate),
+  );
+  const fallback = callQualityReportsByCall.get(callId) ?? [];
+  if (live.length > 0 || fallback.length > 0) {
+    return { reports: [...live, ...fallback] } as const;
+  }
+
+  const { data, error } = await supabase
+    .from("call_quality_reports")
+    .select(REPORT_SELECT)
+    .eq("call_id", callId);
+  if (error) {
+    if (isMissingStorageError(error)) return { reports: [] } as const;
+    return { reports: [], error } as const;
+  }
+  return { reports: (data ?? []) as CallQualityReport[] } as const;
+};
+
+export const canViewCallQuality = async (userId: string, callId: string) => {
+  const session = callSessions.get(callId);
+  if (session) {
+    return session.callerId === userId || session.calleeId === userId;
+  }
+  for (const logs of roomCallLogs.values()) {
+    if (logs.get(userId)?.id === callId) return true;
+  }
+  if (callHistoryByUser.get(userId)?.some((log) => log.id === callId)) {
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from("call_history")
+    .select("id")
+    .eq("id", callId)
+    .or(`caller_id.eq.${userId},receiver_id.eq.${userId}`)
+    .maybeSingle();
+  if (error) {
+    if (!isMissingStorageError(error)) {
+      console.warn(
+        "[CallQuality] History lookup failed:",
+        error.message ?? error,
+      );
+    }
+    return false;
+  }
+  return Boolean(data);
+};
@@ -0,0 +1,299 @@
+import { randomUUID } from "node:crypto";
+import type { ServerWebSocket } from "bun";
+import type {
+  CallHistoryStatus,
+  CallSession,
+  CallState,
+  WebSocketMessage,
+  WSData,
+} from "./types";
+import { activeCalls, callSessions, users } from "./state";
+import { recordCallSession } from "./callHistory";
+import { normalizeCallType } from "./routes/shared";
+import { sendJson, sendToUser } from "./ws";
+
+const DEFAULT_RING_TIMEOUT_MS = 45_000;
+
+const resolveRingTimeoutMs = () => {
+  const value = Number.parseInt(
+    process.env.CALL_RING_TIMEOUT_MS ?? String(DEFAULT_RING_TIMEOUT_MS),
+    10,
+  );
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_RING_TIMEOUT_MS;
+};
+
+const RING_TIMEOUT_MS = resolveRingTimeoutMs();
+export const CALL_WAITING_ENABLED = process.env.CALL_WAITING_ENABLED !== "false";
+const ringTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const LIVE_CALL_STATES: CallState[] = [
+  "ringing",
+  "connecting",
+  "active",
+  "held",
+];
+
+const SIGNAL_ALLOWED_STATES: Record<string, CallState[]> = {
+  offer: LIVE_CALL_STATES,
+  answer: LIVE_CALL_STATES,
+  "ice-candidate": LIVE_CALL_STATES,
+  hangup: LIVE_CALL_STATES,
+  "screen-share": ["connecting", "active"],
+};
+
+export function createCallSession(
+  callerSocket: ServerWebSocket<WSData>,
+  calleeId: string,
+  callType?: string,
+): CallSession {
+  const session: CallSession = {
+    id: randomUUID(),
+    callerId: callerSocket.data.userId,
+    calleeId,
+    callType: normalizeCallType(callType),
+    state: "ringing",
+    createdAt: Date.now(),
+    callerSocket,
+  };
+  callSessions.set(session.id, session);
+  ringTimers.set(
+    session.id,
+    setTimeout(() => handleRingTimeout(session.id), RING_TIMEOUT_MS),
+  );
+  return session;
+}
+
+const clearRingTimer = (callId: string) => {
+  const timer = ringTimers.get(callId);
+  if (!timer) return;
+  clearTimeout(timer);
+  ringTimers.delete(callId);
+};
+
+const handleRingTimeout = (callId: string) => {
+  ringTimers.delete(callId);
+  const session = callSessions.get(callId);
+  if (!session || session.state !== "ringing") return;
+  console.log(`[Calls] Ring timeout: ${callId}`);
+  endCallSession(session, { endedBy: null, reason: "timeout" });
+  sendToCallParticipant(session, session.callerId, {
+    type: "hangup",
+    from: session.calleeId,
+    callId,
+    reason: "timeout",
+  });
+  sendToUser(session.calleeId, {
+    type: "hangup",
+    from: session.callerId,
+    callId,
+    reason: "timeout",
+  });
+  sendToUser(session.calleeId, {
+    type: "missed-call",
+    from: session.callerId,
+    callId,
+    callType: session.callType,
+    startedAt: new Date(session.createdAt).toISOString(),
+  });
+};
+
+export function isCallParticipant(session: CallSession, userId: string) {
+  return session.callerId === userId || session.calleeId === userId;
+}
+
+export function getCallPeerId(session: CallSession, userId: string) {
+  return session.callerId === userId ? session.calleeId : session.callerId;
+}
+
+export function getCallSocket(session: CallSession, userId: string) {
+  if (session.callerId === userId) return session.callerSocket ?? null;
+  if (session.calleeId === userId) return session.calleeSocket ?? null;
+  return null;
+}
+
+export function sendToCallParticipant(
+  session: CallSession,
+  userId: string,
+  message: Record<string, any>,
+) {
+  const socket = getCallSocket(session, userId);
+  if (socket) {
+    sendJson(socket, message);
+    return;
+  }
+  sendToUser(userId, message);
+}
+
+export function repinCallSocket(
+  session: CallSession,
+  socket: ServerWebSocket<WSData>,
+) {
+  const { userId } = socket.data;
+  if (session.callerId === userId && session.callerSocket) {
+    session.callerSocket = socket;
+  }
+  if (session.calleeId === userId && session.calleeSocket) {
+    session.calleeSocket = socket;
+  }
+}
+
+export function notifyOtherDevices(
+  userId: string,
+  exclude: ServerWebSocket<WSData>,
+  message: Record<string, any>,
+) {
+  const sockets = users.get(userId);
+  if (!sockets) return;
+  for (const socket of sockets) {
+    if (socket !== exclude) sendJson(socket, message);
+  }
+}
+
+export function findCallBetween(userId: string, peerId: string) {
+  for (const session of callSessions.values()) {
+    if (isCallParticipant(session, userId) && isCallParticipant(session, peerId)) {
+      return session;
+    }
+  }
+  return null;
+}
+
+export function getUserCalls(userId: string) {
+  return Array.from(callSessions.values()).filter((session) =>
+    isCallParticipant(session, userId),
+  );
+}
+
+export function getCurrentCall(userId: string, excludeCallId?: string) {
+  for (const session of callSessions.values()) {
+    if (session.id === excludeCallId) continue;
+    if (session.state !== "connecting" && session.state !== "active") continue;
+    if (isCallParticipant(session, userId)) return session;
+  }
+  return null;
+}
+
+export function hasWaitingCall(userId: string) {
+  return getUserCalls(userId).some(
+    (session) => session.waiting && session.calleeId === userId,
+  );
+}
+
+export function resolveCallSignal(
+  ws: ServerWebSocket<WSData>,
+  data: WebSocketMessage,
+) {
+  const from = ws.data.userId;
+  const callId = typeof data.callId === "string" ? data.callId : "";
+  const to = typeof data.to === "string" ? data.to : "";
+  const session = callId
+    ? callSessions.get(callId)
+    : to
+      ? findCallBetween(from, to)
+      : null;
+  if (!session || !isCallParticipant(session, from)) {
+    return { ok: false, error: "Call not found" } as const;
+  }
+  const pinnedSocket = getCallSocket(session, from);
+  if (pinnedSocket && pinnedSocket !== ws) {
+    return { ok: false, error: "Call is active on another device" } as const;
+  }
+  const peerId = getCallPeerId(session, from);
+  if (to && to !== peerId) {
+    return { ok: false, error: "Call peer mismatch" } as const;
+  }
+  const allowedStates = SIGNAL_ALLOWED_STATES[data.type] ?? [];
+  if (!allowedStates.includes(session.state)) {
+    return { ok: false, error: "Invalid call state" } as const;
+  }
+  if (session.state === "ringing") {
+    if (data.type === "offer" && from !== session.callerId) {
+      return { ok: false, error: "Invalid call state" } as const;
+    }
+    if (data.type === "answer" && from !== session.calleeId) {
+      return { ok: false, error: "Invalid call state" } as const;
+    }
+    if (data.type === "answer" && session.waiting) {
+      return { ok: false, error: "Call waiting not accepted" } as const;
+    }
+  }
+  return { ok: true, session, peerId } as const;
+}
+
+export function markCallAnswered(
+  session: CallSession,
+  calleeSocket: ServerWebSocket<WSData>,
+) {
+  if (session.state !== "ringing") return;
+  clearRingTimer(session.id);
+  session.state = "connecting";
+  session.answeredAt = Date.now();
+  session.calleeSocket = calleeSocket;
+  notifyOtherDevices(session.calleeId, calleeSocket, {
+    type: "call-answered-elsewhere",
+    callId: session.id,
+  });
+  activeCalls.set(session.callerId, session.calleeId);
+  activeCalls.set(session.calleeId, session.callerId);
+}
+
+export function markCallConnected(session: CallSession) {
+  if (session.state !== "connecting") return;
+  session.state = "active";
+}
+
+export function holdCallSession(session: CallSession, userId: string) {
+  if (session.state !== "connecting" && session.state !== "active") return;
+  session.state = "held";
+  session.heldBy = userId;
+}
+
+export function resumeCallSession(session: CallSession) {
+  if (session.state !== "held") return;
+  session.state = "active";
+  session.heldBy = undefined;
+  activeCalls.set(session.callerId, session.calleeId);
+  activeCalls.set(session.calleeId, session.callerId);
+}
+
+const resolveCallOutcome = (
+  session: CallSession,
+  endedBy: string | null,
+  reason?: string,
+): CallHistoryStatus => {
+  if (reason === "failed") return "failed";
+  if (session.answeredAt) return "completed";
+  if (endedBy === session.calleeId && reason !== "disconnected") {
+    return "rejected";
+  }
+  return "missed";
+};
+
+const restoreHeldCall = (userId: string) => {
+  if (activeCalls.has(userId)) return;
+  const held = getUserCalls(userId).find((session) => session.state === "held");
+  if (held) activeCalls.set(userId, getCallPeerId(held, userId));
+};
+
+export function endCallSession(
+  session: CallSession,
+  options: { endedBy: string | null; reason?: string },
+) {
+  if (session.state === "ended") return;
+  clearRingTimer(session.id);
+  session.state = "ended";
+  session.endedAt = Date.now();
+  callSessions.delete(session.id);
+  if (activeCalls.get(session.callerId) === session.calleeId) {
+    activeCalls.delete(session.callerId);
+  }
+  if (activeCalls.get(session.calleeId) === session.callerId) {
+    activeCalls.delete(session.calleeId);
+  }
+  restoreHeldCall(session.callerId);
+  restoreHeldCall(session.calleeId);
+  void recordCallSession(
+    session,
+    resolveCallOutcome(session, options.endedBy, options.reason),
+  );
+}
@@ -0,0 +1,225 @@
+import { randomUUID } from "node:crypto";
+import { guestLinksById, type InMemoryGuestLink } from "./state";
+import { supabase } from "./supabase";
+import { createGuestToken } from "./guestTokens";
+import { getGuestLinksValidAfter, isGuestLinkCurrent } from "./rooms";
+import type { GuestPermissions } from "./types";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+  nowIso,
+} from "./routes/shared";
+
+export type GuestLink = InMemoryGuestLink;
+
+const GUEST_LINK_SELECT =
+  "id, room_id, created_by, label, max_uses, use_count, expires_at, revoked_at, created_at";
+const MAX_CLAIM_ATTEMPTS = 3;
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+const toSeconds = (value: string) =>
+  Math.floor(new Date(value).getTime() / 1000);
+
+const guestLinkError = (status: number, error: string) =>
+  ({ ok: false, status, error }) as const;
+
+const isGuestLinkActive = (link: GuestLink) =>
+  !link.revoked_at && new Date(link.expires_at).getTime() > Date.now();
+
+export const isGuestLinkUsable = (link: GuestLink) =>
+  isGuestLinkActive(link) &&
+  (link.max_uses === null || link.use_count < link.max_uses);
+
+export const createGuestLink = async (
+  roomId: string,
+  createdBy: string,
+  options: {
+    ttlSeconds?: number;
+    maxUses?: number | null;
+    label?: string | null;
+    displayName?: string | null;
+    permissions?: Partial<GuestPermissions> | null;
+  },
+) => {
+  const id = randomUUID();
+  const { token, payload } = createGuestToken(roomId, {
+    ttlSeconds: options.ttlSeconds,
+    allowPrivate: true,
+    linkId: id,
+    displayName: options.displayName,
+    permissions: options.permissions,
+  });
+  const link: GuestLink = {
+    id,
+    room_id: roomId,
+    created_by: createdBy,
+    label: options.label ?? null,
+    max_uses: options.maxUses ?? null,
+    use_count: 0,
+    expires_at: new Date(payload.exp * 1000).toISOString(),
+    revoked_at: null,
+    created_at: nowIso(),
+  };
+  try {
+    const { error } = await supabase.from("room_guest_links").insert(link);
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn("[GuestLinks] Insert failed:", error.message ?? error);
+      }
+      guestLinksById.set(id, link);
+    }
+  } catch (err) {
+    console.warn("[GuestLinks] Insert error:", err);
+    guestLinksById.set(id, link);
+  }
+  return { token, link };
+};
+
+const getGuestLink = async (linkId: string) => {
+  const fallback = guestLinksById.get(linkId);
+  if (fallback) return { link: fallback } as const;
+  const { data, error } = await supabase
+    .from("room_guest_links")
+    .select(GUEST_LINK_SELECT)
+    .eq("id", linkId)
+    .maybeSingle();
+  if (error) {
+    if (isMissingStorageError(error)) return { link: null } as const;
+    return { link: null, error } as const;
+  }
+  return { link: (data as GuestLink | null) ?? null } as const;
+};
+
+export const checkGuestLink = async (
+  linkId: string,
+  roomId: string,
+  options?: { consume?: boolean },
+) => {
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt += 1) {
+    const { link, error } = await getGuestLink(linkId);
+    if (error) {
+      console.warn("[GuestLinks] Lookup failed:", error.message ?? error);
+      return false;
+    }
+    if (!link || link.room_id !== roomId || !isGuestLinkActive(link)) {
+      return false;
+    }
+    if (!(await isGuestLinkCurrent(roomId, link.created_at))) return false;
+    if (!options?.consume) return true;
+    if (!isGuestLinkUsable(link)) return false;
+    if (guestLinksById.has(linkId)) {
+      link.use_count += 1;
+      return true;
+    }
+
+    const { data, error: updateError } = await supabase
+      .from("room_guest_links")
+      .update({ use_count: link.use_count + 1 })
+      .eq("id", linkId)
+      .eq("use_count", link.use_count)
+      .is("revoked_at", null)
+      .select("id");
+    if (updateError) {
+      console.warn(
+        "[GuestLinks] Use update failed:",
+        updateError.message ?? updateError,
+      );
+      return false;
+    }
+    if (data && data.length > 0) return true;
+  }
+  return false;
+};
+
+export const listGuestLinks = async (roomId: string) => {
+  const byId = new Map<string, GuestLink>();
+  const { data, error } = await supabase
+    .from("room_guest_links")
+    .select(GUEST_LINK_SELECT)
+    .eq("room_id", roomId)
+    .is("revoked_at", null)
+    .gt("expires_at", nowIso());
+  if (error && !isMissingStorageError(error)) {
+    return { links: [], error } as const;
+  }
+  for (const row of (data ?? []) as GuestLink[]) byId.set(row.id, row);
+  for (const link of guestLinksById.values()) {
+    if (link.room_id === roomId) byId.set(link.id, link);
+  }
+  const validAfter = await getGuestLinksValidAfter(roomId);
+  const links = Array.from(byId.values())
+    .filter(
+      (link) =>
+        isGuestLinkUsable(link) &&
+        new Date(link.created_at).getTime() >= validAfter,
+    )
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  return { links } as const;
+};
+
+const findSharedGuestLink = async (
+  roomId: string,
+  options: { label: string; ttlSeconds: number },
+) => {
+  const { links } = await listGuestLinks(roomId);
+  const minExpiresAt = Date.now() + (options.ttlSeconds * 1000) / 2;
+  return (
+    links.find(
+      (link) =>
+        link.label === options.label &&
+        link.max_uses === null &&
+        new Date(link.expires_at).getTime() >= minExpiresAt,
+    ) ?? null
+  );
+};
+
+export const getSharedGuestLink = async (
+  roomId: string,
+  createdBy: string,
+  options: { label: string; ttlSeconds: number },
+) => {
+  const link =
+    (await findSharedGuestLink(roomId, options)) ??
+    (await createGuestLink(roomId, createdBy, options)).link;
+  const issuedAt = toSeconds(link.created_at);
+  const { token } = createGuestToken(roomId, {
+    ttlSeconds: toSeconds(link.expires_at) - issuedAt,
+    allowPrivate: true,
+    linkId: link.id,
+    issuedAt,
+  });
+  return { token, link };
+};
+
+export const revokeGuestLink = async (roomId: string, linkId: string) => {
+  const fallback = guestLinksById.get(linkId);
+  if (fallback && fallback.room_id === roomId) {
+    if (fallback.revoked_at) return guestLinkError(404, "Guest link not found");
+    fallback.revoked_at = nowIso();
+    return { ok: true } as const;
+  }
+
+  const { data, error } = await supabase
+    .from("room_guest_links")
+    .update({ revoked_at: nowIso() })
+    .eq("id", linkId)
+    .eq("room_id", roomId)
+    .is("revoked_at", null)
+    .select("id");
+  if (error) {
+    if (isMissingStorageError(error)) {
+      return guestLinkError(404, "Guest link not found");
+    }
+    return guestLinkError(500, "Guest links storage error");
+  }
+  if (!data || data.length === 0) {
+    return guestLinkError(404, "Guest link not found");
+  }
+  return { ok: true } as const;
+};
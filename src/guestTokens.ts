@@ -1,8 +1,16 @@
 import { createHmac } from "node:crypto";
+import type { GuestPermissions } from "./types";
 
 const DEFAULT_GUEST_TOKEN_TTL_SECONDS = 300;
 const MIN_GUEST_TOKEN_TTL_SECONDS = 300;
 const MAX_GUEST_TOKEN_TTL_SECONDS = 86_400;
+const GUEST_DISPLAY_NAME_MAX_LENGTH = 64;
+const DEFAULT_GUEST_DISPLAY_NAME = "Guest";
+const DEFAULT_GUEST_PERMISSIONS: GuestPermissions = {
+  chat: true,
+  video: true,
+  screenShare: true,
+};
 
 const resolveGuestTokenSecret = () => {
   const secret = process.env.GUEST_TOKEN_SECRET;
@@ -20,6 +28,9 @@ export interface GuestTokenPayload {
   v: number;
   roomId: string;
   guestId?: string;
+  linkId?: string;
+  displayName?: string;
+  permissions?: GuestPermissions;
   iat: number;
   exp: number;
   allowPrivate: boolean;
@@ -53,18 +64,113 @@ export const resolveGuestTokenTtl = (requestedTtl?: number | null) => {
   );
 };
 
+export const normalizeGuestDisplayName = (value?: string | null) => {
+  const name = (value ?? "")
+    .replace(/[\u0000-\u001f\u007f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, GUEST_DISPLAY_NAME_MAX_LENGTH)
+    .trim();
+  return name || null;
+};
+
+export const normalizeGuestPermissions = (
+  value?: Partial<GuestPermissions> | null,
+): GuestPermissions => ({
+  chat:
+    typeof value?.chat === "boolean"
+      ? value.chat
+      : DEFAULT_GUEST_PERMISSIONS.chat,
+  video:
+    typeof value?.video === "boolean"
+      ? value.video
+      : DEFAULT_GUEST_PERMISSIONS.video,
+  screenShare:
+    typeof value?.screenShare === "boolean"
+      ? value.screenShare
+      : DEFAULT_GUEST_PERMISSIONS.screenShare,
+});
+
+export const resolveGuestIdentity = (
+  payload: GuestTokenPayload,
+  requestedName?: string | null,
+) => ({
+  displayName:
+    normalizeGuestDisplayName(payload.displayName) ??
+    normalizeGuestDisplayName(requestedName) ??
+    DEFAULT_GUEST_DISPLAY_NAME,
+  permissions: normalizeGuestPermissions(
+    payload.v >= 3 ? payload.permissions : null,
+  ),
+});
+
+export const getGuestMediaViolation = (
+  permissions: GuestPermissions | undefined,
+  patch: Record<string, unknown>,
+) => {
+  if (patch.videoMuted === false && !permissions?.video) {
+    return "Video is not allowed for this guest";
+  }
+  if (patch.screenSharing === true && !permissions?.screenShare) {
+    return "Screen sharing is not allowed for this guest";
+  }
+  return null;
+};
+
+const SDP_FIELDS = ["sdp", "offer", "answer", "description"];
+
+const readSdp = (value: unknown) => {
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object" && "sdp" in value) {
+    return typeof value.sdp === "string" ? value.sdp : null;
+  }
+  return null;
+};
+
+const sendsVideo = (sdp: string) =>
+  sdp
+    .split(/\r?\n(?=m=)/)
+    .filter((section) => /^m=video [1-9]/.test(section))
+    .some((section) => {
+      const direction = section.match(/^a=(recvonly|inactive)\s*$/m);
+      return !direction;
+    });
+
+export const getGuestSdpViolation = (
+  permissions: GuestPermissions | undefined,
+  message: Record<string, unknown>,
+) => {
+  if (permissions?.video || permissions?.screenShare) return null;
+  for (const field of SDP_FIELDS) {
+    const sdp = readSdp(message[field]);
+    if (sdp && sendsVideo(sdp)) return "Video is not allowed for this guest";
+  }
+  return null;
+};
+
 export const createGuestToken = (
   roomId: string,
-  options?: { ttlSeconds?: number; allowPrivate?: boolean },
+  options?: {
+    ttlSeconds?: number;
+    allowPrivate?: boolean;
+    linkId?: string;
+    displayName?: string | null;
+    permissions?: Partial<GuestPermissions> | null;
+    issuedAt?: number;
+  },
 ) => {
   const ttlSeconds = resolveGuestTokenTtl(options?.ttlSeconds);
-  const nowSeconds = Math.floor(Date.now() / 1000);
+  const nowSeconds = options?.issuedAt ?? Math.floor(Date.now() / 1000);
+  const displayName = normalizeGuestDisplayName(options?.displayName);
   const payload: GuestTokenPayload = {
-    v: 2,
+    v: 3,
     roomId,
     iat: nowSeconds,
     exp: nowSeconds + ttlSeconds,
     allowPrivate: options?.allowPrivate ?? true,
+    permissions: normalizeGuestPermissions(options?.permissions),
+    ...(options?.linkId ? { linkId: options.linkId } : {}),
+    ...(displayName ? { displayName } : {}),
   };
   const payloadB64 = base64UrlEncode(JSON.stringify(payload));
   const signature = sign(payloadB64);
@@ -81,7 +187,7 @@ export const verifyGuestToken = (token?: string | null) => {
     const payload = JSON.parse(
       base64UrlDecode(payloadB64),
     ) as GuestTokenPayload;
-    if (!payload || (payload.v !== 1 && payload.v !== 2)) return null;
+    if (!payload || ![1, 2, 3].includes(payload.v)) return null;
     if (!payload.roomId) return null;
     const nowSeconds = Math.floor(Date.now() / 1000);
     if (!Number.isFinite(payload.exp) || payload.exp <= nowSeconds) return null;
@@ -60,6 +60,16 @@ export function jsonResponse(payload: unknown, status = 200): Response {
   });
 }
 
+export function calendarResponse(body: string): Response {
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
 export function errorResponse(message: string, status: number): Response {
   return jsonResponse({ error: message }, status);
 }
@@ -0,0 +1,184 @@
+import { meetingsById, type InMemoryMeeting } from "./state";
+import { supabase } from "./supabase";
+import { sendToUser } from "./ws";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+} from "./routes/shared";
+
+export type Meeting = InMemoryMeeting;
+
+const DEFAULT_REMINDER_LEAD_MS = 5 * 60_000;
+const REMINDER_CHECK_INTERVAL_MS = 30_000;
+const MEETING_SELECT =
+  "id, room_id, title, starts_at, duration_minutes, invitee_ids, created_by, created_at, reminded_at";
+
+const resolveReminderLeadMs = () => {
+  const value = Number.parseInt(
+    process.env.MEETING_REMINDER_LEAD_MS ?? String(DEFAULT_REMINDER_LEAD_MS),
+    10,
+  );
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_REMINDER_LEAD_MS;
+};
+
+const REMINDER_LEAD_MS = resolveReminderLeadMs();
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+export const getMeetingEndsAt = (meeting: Meeting) =>
+  new Date(meeting.starts_at).getTime() + meeting.duration_minutes * 60_000;
+
+const getMeetingAudience = (meeting: Meeting) =>
+  Array.from(new Set([meeting.created_by, ...meeting.invitee_ids]));
+
+const isMeetingAttendee = (meeting: Meeting, userId: string) =>
+  meeting.created_by === userId || meeting.invitee_ids.includes(userId);
+
+export const createMeeting = async (meeting: Meeting) => {
+  try {
+    const { error } = await supabase.from("meetings").insert(meeting);
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn("[Meetings] Insert failed:", error.message ?? error);
+      }
+      meetingsById.set(meeting.id, meeting);
+    }
+  } catch (err) {
+    console.warn("[Meetings] Insert error:", err);
+    meetingsById.set(meeting.id, meeting);
+  }
+  for (const userId of meeting.invitee_ids) {
+    sendToUser(userId, { type: "meeting-scheduled", meeting });
+  }
+  return meeting;
+};
+
+export const getMeeting = async (meetingId: string) => {
+  const fallback = meetingsById.get(meetingId);
+  if (fallback) return { meeting: fallback } as const;
+  const { data, error } = await supabase
+    .from("meetings")
+    .select(MEETING_SELECT)
+    .eq("id", meetingId)
+    .maybeSingle();
+  if (error) {
+    if (isMissingStorageError(error)) return { meeting: null } as const;
+    return { meeting: null, error } as const;
+  }
+  return { meeting: (data as Meeting | null) ?? null } as const;
+};
+
+export const cancelMeeting = async (meeting: Meeting, cancelledBy: string) => {
+  if (!meetingsById.delete(meeting.id)) {
+    const { error } = await supabase
+      .from("meetings")
+      .delete()
+      .eq("id", meeting.id);
+    if (error && !isMissingStorageError(error)) return { ok: false, error };
+  }
+  for (const userId of getMeetingAudience(meeting)) {
+    if (userId === cancelledBy) continue;
+    sendToUser(userId, {
+      type: "meeting-cancelled",
+      meetingId: meeting.id,
+      roomId: meeting.room_id,
+      by: cancelledBy,
+    });
+  }
+  return { ok: true } as const;
+};
+
+export const listUpcomingMeetings = async (userId: string) => {
+  const now = Date.now();
+  const byId = new Map<string, Meeting>();
+  const windowStart = new Date(now - 24 * 60 * 60_000).toISOString();
+
+  const [created, invited] = await Promise.all([
+    supabase
+      .from("meetings")
+      .select(MEETING_SELECT)
+      .eq("created_by", userId)
+      .gte("starts_at", windowStart),
+    supabase
+      .from("meetings")
+      .select(MEETING_SELECT)
+      .contains("invitee_ids", [userId])
+      .gte("starts_at", windowStart),
+  ]);
+  for (const result of [created, invited]) {
+    if (result.error) {
+      if (isMissingStorageError(result.error)) continue;
+      return { meetings: [], error: result.error } as const;
+    }
+    for (const row of (result.data ?? []) as Meeting[]) byId.set(row.id, row);
+  }
+  for (const meeting of meetingsById.values()) {
+    if (isMeetingAttendee(meeting, userId)) byId.set(meeting.id, meeting);
+  }
+
+  const meetings = Array.from(byId.values())
+    .filter((meeting) => getMeetingEndsAt(meeting) > now)
+    .sort(
+      (a, b) =>
+        new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime(),
+    );
+  return { meetings } as const;
+};
+
+const sendMeetingReminder = (meeting: Meeting, now: number) => {
+  const startsInMs = Math.max(0, new Date(meeting.starts_at).getTime() - now);
+  for (const userId of getMeetingAudience(meeting)) {
+    sendToUser(userId, { type: "meeting-reminder", meeting, startsInMs });
+  }
+};
+
+export const sendMeetingReminders = async () => {
+  const now = Date.now();
+  const nowValue = new Date(now).toISOString();
+  const deadline = new Date(now + REMINDER_LEAD_MS).toISOString();
+
+  for (const meeting of meetingsById.values()) {
+    if (getMeetingEndsAt(meeting) <= now) {
+      meetingsById.delete(meeting.id);
+      continue;
+    }
+    if (meeting.reminded_at || meeting.starts_at > deadline) continue;
+    if (meeting.starts_at < nowValue) continue;
+    meeting.reminded_at = nowValue;
+    sendMeetingReminder(meeting, now);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("meetings")
+      .update({ reminded_at: nowValue })
+      .is("reminded_at", null)
+      .gte("starts_at", nowValue)
+      .lte("starts_at", deadline)
+      .select(MEETING_SELECT);
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn(
+          "[Meetings] Reminder lookup failed:",
+          error.message ?? error,
+        );
+      }
+      return;
+    }
+    for (const meeting of (data ?? []) as Meeting[]) {
+      sendMeetingReminder(meeting, now);
+    }
+  } catch (err) {
+    console.warn("[Meetings] Reminder lookup error:", err);
+  }
+};
+
+export const startMeetingReminders = () =>
+  setInterval(() => {
+    void sendMeetingReminders();
+  }, REMINDER_CHECK_INTERVAL_MS);
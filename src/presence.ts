@@ -1,2 +1,16 @@
 export const PRESENCE_HEARTBEAT_MS = 20_000;
 export const PRESENCE_TTL_MS = 60_000;
+
+const DEFAULT_RECONNECT_GRACE_MS = 15_000;
+
+const resolveReconnectGraceMs = () => {
+  const value = Number.parseInt(
+    process.env.RECONNECT_GRACE_MS ?? String(DEFAULT_RECONNECT_GRACE_MS),
+    10,
+  );
+  return Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_RECONNECT_GRACE_MS;
+};
+
+export const RECONNECT_GRACE_MS = resolveReconnectGraceMs();
@@ -0,0 +1,73 @@
+import { supabase } from "./supabase";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+  nowIso,
+} from "./routes/shared";
+
+const DEFAULT_PURGE_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60_000;
+
+const resolvePurgeRetentionMs = () => {
+  const value = Number.parseInt(
+    process.env.ROOM_PURGE_RETENTION_DAYS ??
+      String(DEFAULT_PURGE_RETENTION_DAYS),
+    10,
+  );
+  const days =
+    Number.isFinite(value) && value >= 0 ? value : DEFAULT_PURGE_RETENTION_DAYS;
+  return days * DAY_MS;
+};
+
+const PURGE_RETENTION_MS = resolvePurgeRetentionMs();
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+export const getPurgeAvailableAt = (archivedAt: string) =>
+  new Date(new Date(archivedAt).getTime() + PURGE_RETENTION_MS).toISOString();
+
+export const getArchivedRoomIds = async (roomIds: string[]) => {
+  const archived = new Set<string>();
+  if (roomIds.length === 0) return archived;
+  const { data, error } = await supabase
+    .from("rooms")
+    .select("id")
+    .in("id", roomIds)
+    .not("archived_at", "is", null);
+  if (error) {
+    if (!isMissingStorageError(error)) {
+      console.warn("[RoomArchive] Lookup failed:", error.message ?? error);
+    }
+    return archived;
+  }
+  for (const row of data ?? []) archived.add(row.id);
+  return archived;
+};
+
+export const isRoomArchived = async (roomId: string) =>
+  (await getArchivedRoomIds([roomId])).has(roomId);
+
+export const setRoomArchived = async (roomId: string, archived: boolean) => {
+  const archivedAt = archived ? nowIso() : null;
+  const payload: Record<string, any> = {
+    archived_at: archivedAt,
+    updated_at: nowIso(),
+  };
+  if (archived) payload.is_active = false;
+  const { error } = await supabase
+    .from("rooms")
+    .update(payload)
+    .eq("id", roomId);
+  if (error) {
+    if (error.code === MISSING_COLUMN_ERROR_CODE) {
+      return { ok: false, supported: false, error } as const;
+    }
+    return { ok: false, supported: true, error } as const;
+  }
+  return { ok: true, supported: true, archivedAt } as const;
+};
@@ -0,0 +1,97 @@
+import { supabase } from "./supabase";
+import { roomBansByRoom } from "./state";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+  nowIso,
+} from "./routes/shared";
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+const isGuestId = (userId: string) => userId.startsWith("guest:");
+
+const banFallback = (roomId: string, userId: string) => {
+  const bans = roomBansByRoom.get(roomId) ?? new Set<string>();
+  bans.add(userId);
+  roomBansByRoom.set(roomId, bans);
+};
+
+const unbanFallback = (roomId: string, userId: string) => {
+  const bans = roomBansByRoom.get(roomId);
+  if (!bans) return;
+  bans.delete(userId);
+  if (bans.size === 0) roomBansByRoom.delete(roomId);
+};
+
+export const isBannedFromRoom = async (roomId: string, userId: string) => {
+  if (roomBansByRoom.get(roomId)?.has(userId)) return true;
+  if (isGuestId(userId)) return false;
+  try {
+    const { data, error } = await supabase
+      .from("room_bans")
+      .select("user_id")
+      .eq("room_id", roomId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn("[RoomBans] Ban lookup failed:", error.message ?? error);
+      }
+      return false;
+    }
+    return Boolean(data);
+  } catch (err) {
+    console.warn("[RoomBans] Ban lookup error:", err);
+    return false;
+  }
+};
+
+export const banFromRoom = async (
+  roomId: string,
+  userId: string,
+  bannedBy: string,
+) => {
+  if (isGuestId(userId)) {
+    banFallback(roomId, userId);
+    return;
+  }
+  try {
+    const { error } = await supabase.from("room_bans").upsert({
+      room_id: roomId,
+      user_id: userId,
+      banned_by: bannedBy,
+      created_at: nowIso(),
+    });
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn("[RoomBans] Ban insert failed:", error.message ?? error);
+      }
+      banFallback(roomId, userId);
+    }
+  } catch (err) {
+    console.warn("[RoomBans] Ban insert error:", err);
+    banFallback(roomId, userId);
+  }
+};
+
+export const unbanFromRoom = async (roomId: string, userId: string) => {
+  unbanFallback(roomId, userId);
+  if (isGuestId(userId)) return;
+  try {
+    const { error } = await supabase
+      .from("room_bans")
+      .delete()
+      .eq("room_id", roomId)
+      .eq("user_id", userId);
+    if (error && !isMissingStorageError(error)) {
+      console.warn("[RoomBans] Ban delete failed:", error.message ?? error);
+    }
+  } catch (err) {
+    console.warn("[RoomBans] Ban delete error:", err);
+  }
+};
@@ -0,0 +1,329 @@
+import { rooms } from "./state";
+import { supabase } from "./supabase";
+import { normalizeAvatarUrl } from "./storage";
+import { ROOM_TYPE_GROUP, normalizeRoomType } from "./voiceChannels";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+} from "./routes/shared";
+
+export type RoomDiscoverySort = "participants" | "recent";
+
+export interface RoomDiscoveryOptions {
+  query?: string;
+  visibility?: "public" | "private";
+  roomType?: string;
+  hasSpace?: boolean;
+  live?: boolean;
+  sort: RoomDiscoverySort;
+  cursor?: string;
+  limit: number;
+}
+
+interface DiscoveredRoom {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  participants: number;
+  maxParticipants: number | null;
+  roomType: string;
+  avatarUrl: string | null;
+  topic: string | null;
+  updatedAt: string | null;
+}
+
+interface DiscoveryCursor {
+  participants: number;
+  updatedAt: string | null;
+  id: string;
+}
+
+const DISCOVERY_SCAN_LIMIT = 500;
+const DISCOVERY_BATCH_SIZE = 100;
+const DISCOVERY_MAX_BATCHES = 5;
+const FULL_SELECT =
+  "id, name, is_private, is_active, max_participants, room_type, updated_at, avatar_url, topic";
+const BASIC_SELECT =
+  "id, name, is_active, max_participants, room_type, updated_at";
+
+const discoveryError = (status: number, error: string) =>
+  ({ ok: false, status, error }) as const;
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+const quoteFilterValue = (value: string) =>
+  `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+const toTime = (value: string | null) => {
+  const time = value ? new Date(value).getTime() : 0;
+  return Number.isFinite(time) ? time : 0;
+};
+
+const toCursor = (room: DiscoveredRoom): DiscoveryCursor => ({
+  participants: room.participants,
+  updatedAt: room.updatedAt,
+  id: room.id,
+});
+
+const encodeDiscoveryCursor = (cursor: DiscoveryCursor) =>
+  Buffer.from(
+    JSON.stringify([cursor.participants, cursor.updatedAt, cursor.id]),
+  ).toString("base64url");
+
+const decodeDiscoveryCursor = (value: string): DiscoveryCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+    const [participants, updatedAt, id] = parsed;
+    if (
+      !Number.isInteger(participants) ||
+      (updatedAt !== null && typeof updatedAt !== "string") ||
+      typeof id !== "string"
+    ) {
+      return null;
+    }
+    return { participants, updatedAt, id };
+  } catch {
+    return null;
+  }
+};
+
+const compareCursors = (
+  sort: RoomDiscoverySort,
+  a: DiscoveryCursor,
+  b: DiscoveryCursor,
+) => {
+  if (sort === "participants" && a.participants !== b.participants) {
+    return b.participants - a.participants;
+  }
+  const aTime = toTime(a.updatedAt);
+  const bTime = toTime(b.updatedAt);
+  if (aTime !== bTime) return bTime - aTime;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+};
+
+const buildKeysetFilter = (cursor: DiscoveryCursor) => {
+  const id = quoteFilterValue(cursor.id);
+  if (!cursor.updatedAt) return `and(updated_at.is.null,id.lt.${id})`;
+  const updatedAt = quoteFilterValue(cursor.updatedAt);
+  return [
+    `updated_at.lt.${updatedAt}`,
+    "updated_at.is.null",
+    `and(updated_at.eq.${updatedAt},id.lt.${id})`,
+  ].join(",");
+};
+
+const toDiscoveredRoom = (row: any): DiscoveredRoom => ({
+  id: row.id,
+  name: row.name || row.id,
+  isPrivate: Boolean(row.is_private),
+  participants: rooms.get(row.id)?.size ?? 0,
+  maxParticipants: row.max_participants ?? null,
+  roomType: normalizeRoomType(row.room_type),
+  avatarUrl: normalizeAvatarUrl(row.avatar_url),
+  topic: row.topic ?? null,
+  updatedAt: row.updated_at ?? null,
+});
+
+const matchesDiscoveryOptions = (
+  room: DiscoveredRoom,
+  options: RoomDiscoveryOptions,
+) => {
+  const query = options.query?.toLowerCase();
+  if (query && !room.name.toLowerCase().includes(query)) return false;
+  if (
+    options.visibility &&
+    room.isPrivate !== (options.visibility === "private")
+  ) {
+    return false;
+  }
+  if (options.roomType && room.roomType !== options.roomType) return false;
+  if (options.live && room.participants === 0) return false;
+  if (
+    options.hasSpace &&
+    room.maxParticipants !== null &&
+    room.participants >= room.maxParticipants
+  ) {
+    return false;
+  }
+  return true;
+};
+
+const createRoomsQuery = (
+  options: RoomDiscoveryOptions,
+  liveRoomIds: string[],
+  select: string,
+  full: boolean,
+) => {
+  let builder = supabase.from("rooms").select(select);
+  if (full) {
+    builder = builder.is("archived_at", null);
+    if (options.visibility) {
+      builder = builder.eq("is_private", options.visibility === "private");
+    }
+  }
+  if (options.query) {
+    builder = builder.ilike("name", `%${escapeLikePattern(options.query)}%`);
+  }
+  if (options.roomType) {
+    builder =
+      options.roomType === ROOM_TYPE_GROUP
+        ? builder.or(`room_type.is.null,room_type.eq.${ROOM_TYPE_GROUP}`)
+        : builder.eq("room_type", options.roomType);
+  }
+  if (options.live) builder = builder.in("id", liveRoomIds);
+  return builder;
+};
+
+type RoomsQuery = ReturnType<typeof createRoomsQuery>;
+
+const fetchRoomRows = async (
+  options: RoomDiscoveryOptions,
+  liveRoomIds: string[],
+  finish: (builder: RoomsQuery) => RoomsQuery,
+) => {
+  let full = true;
+  let { data, error } = await finish(
+    createRoomsQuery(options, liveRoomIds, FULL_SELECT, full),
+  );
+  if (error?.code === MISSING_COLUMN_ERROR_CODE) {
+    full = false;
+    ({ data, error } = await finish(
+      createRoomsQuery(options, liveRoomIds, BASIC_SELECT, full),
+    ));
+  }
+  if (error) return { rows: [] as any[], full, error } as const;
+  return { rows: (data ?? []) as any[], full } as const;
+};
+
+const discoverRecentRooms = async (
+  options: RoomDiscoveryOptions,
+  cursor: DiscoveryCursor | null,
+  liveRoomIds: string[],
+) => {
+  const page: DiscoveredRoom[] = [];
+  let after = cursor;
+  for (let batch = 0; batch < DISCOVERY_MAX_BATCHES; batch += 1) {
+    const keyset = after;
+    const result = await fetchRoomRows(options, liveRoomIds, (builder) =>
+      (keyset ? builder.or(buildKeysetFilter(keyset)) : builder)
+        .order("updated_at", { ascending: false, nullsFirst: false })
+        .order("id", { ascending: false })
+        .limit(DISCOVERY_BATCH_SIZE),
+    );
+    if (result.error) return { error: result.error } as const;
+    for (const row of result.rows) {
+      const room = toDiscoveredRoom(row);
+      after = toCursor(room);
+      if (!matchesDiscoveryOptions(room, options)) continue;
+      page.push(room);
+      if (page.length === options.limit) {
+        return { rooms: page, nextCursor: after } as const;
+      }
+    }
+    if (result.rows.length < DISCOVERY_BATCH_SIZE) {
+      return { rooms: page, nextCursor: null } as const;
+    }
+  }
+  return { rooms: page, nextCursor: after } as const;
+};
+
+const fetchCandidateRows = async (
+  options: RoomDiscoveryOptions,
+  liveRoomIds: string[],
+) => {
+  const result = await fetchRoomRows(options, liveRoomIds, (builder) =>
+    builder
+      .order("updated_at", { ascending: false })
+      .limit(DISCOVERY_SCAN_LIMIT),
+  );
+  const { rows, full, error } = result;
+  if (error) return { rows, full, error, truncated: false } as const;
+
+  const truncated = rows.length >= DISCOVERY_SCAN_LIMIT;
+  const seen = new Set(rows.map((row) => row.id));
+  const missingLiveIds = liveRoomIds.filter((roomId) => !seen.has(roomId));
+  if (!options.live && missingLiveIds.length > 0) {
+    const { data: liveRows, error: liveError } = await createRoomsQuery(
+      options,
+      liveRoomIds,
+      full ? FULL_SELECT : BASIC_SELECT,
+      full,
+    ).in("id", missingLiveIds);
+    if (liveError) {
+      console.warn(
+        "[RoomDiscovery] Live rooms lookup failed:",
+        liveError.message ?? liveError,
+      );
+    } else {
+      rows.push(...((liveRows ?? []) as any[]));
+    }
+  }
+  return { rows, full, truncated } as const;
+};
+
+export const discoverRooms = async (options: RoomDiscoveryOptions) => {
+  const cursor = options.cursor ? decodeDiscoveryCursor(options.cursor) : null;
+  if (options.cursor && !cursor) return discoveryError(400, "Invalid cursor");
+
+  const liveRoomIds = Array.from(rooms.entries())
+    .filter(([, participants]) => participants.size > 0)
+    .map(([roomId]) => roomId);
+  if (options.live && liveRoomIds.length === 0) {
+    return {
+      ok: true,
+      rooms: [] as DiscoveredRoom[],
+      nextCursor: null,
+      truncated: false,
+    } as const;
+  }
+
+  if (options.sort === "recent") {
+    const recent = await discoverRecentRooms(options, cursor, liveRoomIds);
+    if (!recent.error) {
+      return {
+        ok: true,
+        rooms: recent.rooms,
+        nextCursor: recent.nextCursor
+          ? encodeDiscoveryCursor(recent.nextCursor)
+          : null,
+        truncated: false,
+      } as const;
+    }
+    if (recent.error.code !== MISSING_TABLE_ERROR_CODE) {
+      return discoveryError(500, recent.error.message ?? "Rooms storage error");
+    }
+  }
+
+  const result = await fetchCandidateRows(options, liveRoomIds);
+  let rows = result.rows;
+  if (result.error) {
+    if (result.error.code !== MISSING_TABLE_ERROR_CODE) {
+      return discoveryError(500, result.error.message ?? "Rooms storage error");
+    }
+    rows = liveRoomIds.map((roomId) => ({ id: roomId }));
+  }
+
+  const candidates = rows
+    .map(toDiscoveredRoom)
+    .filter((room) => matchesDiscoveryOptions(room, options))
+    .sort((a, b) => compareCursors(options.sort, toCursor(a), toCursor(b)));
+
+  const remaining = cursor
+    ? candidates.filter(
+        (room) => compareCursors(options.sort, cursor, toCursor(room)) < 0,
+      )
+    : candidates;
+  const page = remaining.slice(0, options.limit);
+  const last = page[page.length - 1];
+  const nextCursor =
+    remaining.length > options.limit && last
+      ? encodeDiscoveryCursor(toCursor(last))
+      : null;
+  return {
+    ok: true,
+    rooms: page,
+    nextCursor,
+    truncated: result.truncated,
+  } as const;
+};
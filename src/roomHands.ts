@@ -0,0 +1,59 @@
+import { roomHandQueues, type RaisedHand } from "./state";
+import { broadcastToRoom } from "./ws";
+import { nowIso } from "./routes/shared";
+
+export const getHandQueue = (roomId: string): RaisedHand[] =>
+  roomHandQueues.get(roomId) ?? [];
+
+const broadcastHandQueue = (
+  roomId: string,
+  extra?: Record<string, unknown>,
+) => {
+  broadcastToRoom(roomId, {
+    type: "room-hand-queue",
+    roomId,
+    queue: getHandQueue(roomId),
+    ...extra,
+  });
+};
+
+export const raiseHand = (roomId: string, userId: string) => {
+  const queue = roomHandQueues.get(roomId) ?? [];
+  if (queue.some((entry) => entry.userId === userId)) return false;
+  queue.push({ userId, raisedAt: nowIso() });
+  roomHandQueues.set(roomId, queue);
+  broadcastHandQueue(roomId);
+  return true;
+};
+
+const takeFromQueue = (roomId: string, userId: string) => {
+  const queue = roomHandQueues.get(roomId);
+  if (!queue) return false;
+  const index = queue.findIndex((entry) => entry.userId === userId);
+  if (index < 0) return false;
+  queue.splice(index, 1);
+  if (queue.length === 0) roomHandQueues.delete(roomId);
+  return true;
+};
+
+export const lowerHand = (
+  roomId: string,
+  userId: string,
+  options?: { reason?: "lowered" | "called-on" | "dismissed"; by?: string },
+) => {
+  if (!takeFromQueue(roomId, userId)) return false;
+  broadcastHandQueue(roomId, {
+    userId,
+    reason: options?.reason ?? "lowered",
+    by: options?.by ?? userId,
+  });
+  return true;
+};
+
+export const removeFromHandQueue = (roomId: string, userId: string) => {
+  if (takeFromQueue(roomId, userId)) broadcastHandQueue(roomId);
+};
+
+export const clearHandQueue = (roomId: string) => {
+  roomHandQueues.delete(roomId);
+};
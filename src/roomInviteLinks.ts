@@ -0,0 +1,232 @@
+import {
+  roomInviteLinksById,
+  roomInviteLinkUsesByLink,
+  type InMemoryRoomInviteLink,
+  type InMemoryRoomInviteLinkUse,
+} from "./state";
+import { supabase } from "./supabase";
+import { createRoomInviteToken } from "./roomInviteTokens";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+  nowIso,
+} from "./routes/shared";
+
+export type RoomInviteLink = InMemoryRoomInviteLink;
+export type RoomInviteLinkUse = InMemoryRoomInviteLinkUse;
+
+const INVITE_LINK_SELECT =
+  "id, room_id, created_by, max_uses, use_count, expires_at, revoked_at, created_at";
+const INVITE_LINK_USE_SELECT = "link_id, room_id, user_id, accepted_at";
+const MAX_CLAIM_ATTEMPTS = 3;
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+const inviteLinkError = (status: number, error: string) =>
+  ({ ok: false, status, error }) as const;
+
+export const isRoomInviteLinkUsable = (link: RoomInviteLink) =>
+  !link.revoked_at &&
+  new Date(link.expires_at).getTime() > Date.now() &&
+  (link.max_uses === null || link.use_count < link.max_uses);
+
+export const createRoomInviteLink = async (
+  roomId: string,
+  createdBy: string,
+  options: { ttlSeconds?: number; maxUses?: number | null },
+) => {
+  const { token, payload } = createRoomInviteToken(roomId, {
+    ttlSeconds: options.ttlSeconds,
+  });
+  const link: RoomInviteLink = {
+    id: payload.tokenId,
+    room_id: roomId,
+    created_by: createdBy,
+    max_uses: options.maxUses ?? null,
+    use_count: 0,
+    expires_at: new Date(payload.exp * 1000).toISOString(),
+    revoked_at: null,
+    created_at: nowIso(),
+  };
+  try {
+    const { error } = await supabase.from("room_invite_links").insert(link);
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn(
+          "[RoomInviteLinks] Insert failed:",
+          error.message ?? error,
+        );
+      }
+      roomInviteLinksById.set(link.id, link);
+    }
+  } catch (err) {
+    console.warn("[RoomInviteLinks] Insert error:", err);
+    roomInviteLinksById.set(link.id, link);
+  }
+  return { token, link };
+};
+
+const getRoomInviteLink = async (linkId: string) => {
+  const fallback = roomInviteLinksById.get(linkId);
+  if (fallback) return { link: fallback } as const;
+  const { data, error } = await supabase
+    .from("room_invite_links")
+    .select(INVITE_LINK_SELECT)
+    .eq("id", linkId)
+    .maybeSingle();
+  if (error) {
+    if (isMissingStorageError(error)) return { link: null } as const;
+    return { link: null, error } as const;
+  }
+  return { link: (data as RoomInviteLink | null) ?? null } as const;
+};
+
+const checkRoomInviteLink = async (linkId: string, roomId: string) => {
+  const { link, error } = await getRoomInviteLink(linkId);
+  if (error) return inviteLinkError(500, "Invite links storage error");
+  if (!link || link.room_id !== roomId || !isRoomInviteLinkUsable(link)) {
+    return inviteLinkError(410, "Invite link is no longer valid");
+  }
+  return { ok: true, link } as const;
+};
+
+export const claimRoomInviteLink = async (linkId: string, roomId: string) => {
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt += 1) {
+    const check = await checkRoomInviteLink(linkId, roomId);
+    if (!check.ok) return check;
+    const link = check.link;
+    if (roomInviteLinksById.has(linkId)) {
+      link.use_count += 1;
+      return { ok: true } as const;
+    }
+
+    const { data, error } = await supabase
+      .from("room_invite_links")
+      .update({ use_count: link.use_count + 1 })
+      .eq("id", linkId)
+      .eq("use_count", link.use_count)
+      .is("revoked_at", null)
+      .select("id");
+    if (error) {
+      console.warn(
+        "[RoomInviteLinks] Use update failed:",
+        error.message ?? error,
+      );
+      return inviteLinkError(500, "Invite links storage error");
+    }
+    if (data && data.length > 0) return { ok: true } as const;
+  }
+  return inviteLinkError(409, "Invite link is busy, try again");
+};
+
+export const recordRoomInviteLinkUse = async (use: RoomInviteLinkUse) => {
+  const storeFallback = () => {
+    const existing = roomInviteLinkUsesByLink.get(use.link_id) ?? [];
+    existing.push(use);
+    roomInviteLinkUsesByLink.set(use.link_id, existing);
+  };
+  try {
+    const { error } = await supabase.from("room_invite_link_uses").insert(use);
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn(
+          "[RoomInviteLinks] Use insert failed:",
+          error.message ?? error,
+        );
+      }
+      storeFallback();
+    }
+  } catch (err) {
+    console.warn("[RoomInviteLinks] Use insert error:", err);
+    storeFallback();
+  }
+};
+
+const listRoomInviteLinkUses = async (linkIds: string[]) => {
+  const usesByLink = new Map<string, RoomInviteLinkUse[]>();
+  if (linkIds.length > 0) {
+    const { data, error } = await supabase
+      .from("room_invite_link_uses")
+      .select(INVITE_LINK_USE_SELECT)
+      .in("link_id", linkIds)
+      .order("accepted_at", { ascending: true });
+    if (error && !isMissingStorageError(error)) {
+      console.warn(
+        "[RoomInviteLinks] Use lookup failed:",
+        error.message ?? error,
+      );
+    }
+    for (const row of (data ?? []) as RoomInviteLinkUse[]) {
+      const existing = usesByLink.get(row.link_id) ?? [];
+      existing.push(row);
+      usesByLink.set(row.link_id, existing);
+    }
+  }
+  for (const linkId of linkIds) {
+    const fallback = roomInviteLinkUsesByLink.get(linkId);
+    if (!fallback) continue;
+    usesByLink.set(linkId, [...(usesByLink.get(linkId) ?? []), ...fallback]);
+  }
+  return usesByLink;
+};
+
+export const listRoomInviteLinks = async (roomId: string) => {
+  const byId = new Map<string, RoomInviteLink>();
+  const { data, error } = await supabase
+    .from("room_invite_links")
+    .select(INVITE_LINK_SELECT)
+    .eq("room_id", roomId)
+    .is("revoked_at", null)
+    .gt("expires_at", nowIso());
+  if (error && !isMissingStorageError(error)) {
+    return { links: [], error } as const;
+  }
+  for (const row of (data ?? []) as RoomInviteLink[]) byId.set(row.id, row);
+  for (const link of roomInviteLinksById.values()) {
+    if (link.room_id === roomId) byId.set(link.id, link);
+  }
+  const links = Array.from(byId.values())
+    .filter(isRoomInviteLinkUsable)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const usesByLink = await listRoomInviteLinkUses(links.map((link) => link.id));
+  return {
+    links: links.map((link) => ({
+      ...link,
+      uses: usesByLink.get(link.id) ?? [],
+    })),
+  } as const;
+};
+
+export const revokeRoomInviteLink = async (roomId: string, linkId: string) => {
+  const fallback = roomInviteLinksById.get(linkId);
+  if (fallback && fallback.room_id === roomId) {
+    if (fallback.revoked_at) {
+      return inviteLinkError(404, "Invite link not found");
+    }
+    fallback.revoked_at = nowIso();
+    return { ok: true } as const;
+  }
+
+  const { data, error } = await supabase
+    .from("room_invite_links")
+    .update({ revoked_at: nowIso() })
+    .eq("id", linkId)
+    .eq("room_id", roomId)
+    .is("revoked_at", null)
+    .select("id");
+  if (error) {
+    if (isMissingStorageError(error)) {
+      return inviteLinkError(404, "Invite link not found");
+    }
+    return inviteLinkError(500, "Invite links storage error");
+  }
+  if (!data || data.length === 0) {
+    return inviteLinkError(404, "Invite link not found");
+  }
+  return { ok: true } as const;
+};
@@ -0,0 +1,84 @@
+import type { ServerWebSocket } from "bun";
+import type { JoinRoomOptions, WSData } from "./types";
+import { roomLobbies, type LobbyEntry } from "./state";
+import { listRoomAdminIds } from "./roomMembers";
+import { sendJson, sendToUser } from "./ws";
+import { nowIso } from "./routes/shared";
+
+const notifyLobbyAdmins = async (
+  roomId: string,
+  message: Record<string, any>,
+) => {
+  const adminIds = await listRoomAdminIds(roomId);
+  for (const adminId of adminIds) {
+    sendToUser(adminId, message);
+  }
+};
+
+const toLobbyRequest = (roomId: string, entry: LobbyEntry) => ({
+  roomId,
+  userId: entry.userId,
+  isGuest: entry.isGuest,
+  displayName: entry.options?.actor?.displayName,
+  requestedAt: entry.requestedAt,
+});
+
+export const listLobby = (roomId: string) =>
+  Array.from(roomLobbies.get(roomId)?.values() ?? []).map((entry) =>
+    toLobbyRequest(roomId, entry),
+  );
+
+export const parkInLobby = async (
+  ws: ServerWebSocket<WSData>,
+  roomId: string,
+  options?: JoinRoomOptions,
+) => {
+  const { userId } = ws.data;
+  const entry: LobbyEntry = {
+    ws,
+    userId,
+    isGuest: Boolean(options?.actor?.isGuest),
+    requestedAt: nowIso(),
+    options,
+  };
+  let lobby = roomLobbies.get(roomId);
+  if (!lobby) {
+    lobby = new Map();
+    roomLobbies.set(roomId, lobby);
+  }
+  lobby.set(userId, entry);
+  ws.data.lobbyRoomId = roomId;
+  sendJson(ws, { type: "lobby-waiting", roomId });
+  await notifyLobbyAdmins(roomId, {
+    type: "lobby-request",
+    ...toLobbyRequest(roomId, entry),
+  });
+};
+
+export const takeLobbyEntry = (roomId: string, userId: string) => {
+  const lobby = roomLobbies.get(roomId);
+  const entry = lobby?.get(userId);
+  if (!lobby || !entry) return null;
+  lobby.delete(userId);
+  if (lobby.size === 0) roomLobbies.delete(roomId);
+  if (entry.ws.data.lobbyRoomId === roomId) {
+    entry.ws.data.lobbyRoomId = undefined;
+  }
+  return entry;
+};
+
+export const leaveLobby = async (ws: ServerWebSocket<WSData>) => {
+  const roomId = ws.data.lobbyRoomId;
+  if (!roomId) return;
+  const entry = roomLobbies.get(roomId)?.get(ws.data.userId);
+  if (entry?.ws !== ws) {
+    ws.data.lobbyRoomId = undefined;
+    return;
+  }
+  takeLobbyEntry(roomId, ws.data.userId);
+  await notifyLobbyAdmins(roomId, {
+    type: "lobby-cancelled",
+    roomId,
+    userId: ws.data.userId,
+  });
+};
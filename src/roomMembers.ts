@@ -51,6 +51,52 @@ export const isRoomAdmin = async (roomId: string, userId: string) => {
   return { ok: room?.created_by === userId } as const;
 };
 
+export const listRoomAdminIds = async (roomId: string) => {
+  const adminIds = new Set<string>();
+  try {
+    const { data: room, error: roomError } = await supabase.from('rooms').select('created_by').eq('id', roomId).maybeSingle();
+    if (roomError) {
+      console.warn('[RoomMembers] Room lookup failed:', roomError.message ?? roomError);
+    } else if (room?.created_by) {
+      adminIds.add(room.created_by);
+    }
+
+    const { data: admins, error } = await supabase
+      .from('room_members')
+      .select('user_id')
+      .eq('room_id', roomId)
+      .eq('role', ROOM_MEMBER_ROLE_ADMIN);
+    if (error) {
+      if (!isMissingTableError(error) && !isMissingColumnError(error)) {
+        console.warn('[RoomMembers] Admin lookup failed:', error.message ?? error);
+      }
+    } else {
+      (admins || []).forEach((admin) => {
+        if (admin.user_id) adminIds.add(admin.user_id);
+      });
+    }
+  } catch (err) {
+    console.warn('[RoomMembers] Admin lookup error:', err);
+  }
+  return Array.from(adminIds);
+};
+
+export const listRoomMemberIds = async (roomId: string) => {
+  try {
+    const { data, error } = await supabase.from('room_members').select('user_id').eq('room_id', roomId);
+    if (error) {
+      if (!isMissingTableError(error) && !isMissingColumnError(error)) {
+        console.warn('[RoomMembers] Member lookup failed:', error.message ?? error);
+      }
+      return [];
+    }
+    return (data || []).map((member) => member.user_id as string).filter(Boolean);
+  } catch (err) {
+    console.warn('[RoomMembers] Member lookup error:', err);
+    return [];
+  }
+};
+
 export const isRoomMember = async (roomId: string, userId: string) => {
   const roleResult = await getRoomMemberRole(roomId, userId);
   if (!roleResult.supported) {
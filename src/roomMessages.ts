@@ -1,8 +1,9 @@
 import { roomMessagesByRoom } from './state';
 import { supabase } from './supabase';
-import { MISSING_COLUMN_ERROR_CODE, MISSING_TABLE_ERROR_CODE, ROOM_MESSAGE_LIMIT } from './routes/shared';
+import { MISSING_COLUMN_ERROR_CODE, MISSING_TABLE_ERROR_CODE, ROOM_MESSAGE_LIMIT, nowIso } from './routes/shared';
 import { decryptChatBody, encryptChatBody } from './chatCrypto';
-import { getRoomMemberRole } from './roomMembers';
+import { getRoomMemberRole, isRoomAdmin } from './roomMembers';
+import { isRoomArchived } from './roomArchive';
 
 export type RoomMessage = {
   id: string;
@@ -10,8 +11,15 @@ export type RoomMessage = {
   sender_id: string;
   body: string;
   created_at: string;
+  edited_at?: string | null;
+  deleted_at?: string | null;
 };
 
+export type RoomMessageChange = { body: string } | { delete: true };
+
+const ROOM_MESSAGE_SELECT = 'id, room_id, sender_id, body, created_at, edited_at, deleted_at';
+const ROOM_MESSAGE_BASIC_SELECT = 'id, room_id, sender_id, body, created_at';
+
 const isMissingTableError = (error: any) => Boolean(error && error.code === MISSING_TABLE_ERROR_CODE);
 
 const isMissingColumnError = (error: any) => Boolean(error && error.code === MISSING_COLUMN_ERROR_CODE);
@@ -29,6 +37,16 @@ const getRoomMessagesFallback = (roomId: string): RoomMessage[] => {
   return roomMessagesByRoom.get(roomId) ?? [];
 };
 
+const replaceRoomMessageFallback = (roomId: string, message: RoomMessage) => {
+  const existing = roomMessagesByRoom.get(roomId);
+  const index = existing?.findIndex((entry) => entry.id === message.id) ?? -1;
+  if (!existing || index === -1) return false;
+  existing[index] = message;
+  return true;
+};
+
+const roomMessageError = (status: number, error: string) => ({ ok: false, status, error }) as const;
+
 export const storeRoomMessage = async (roomId: string, message: RoomMessage) => {
   try {
     const payload = {
@@ -55,12 +73,17 @@ export const storeRoomMessage = async (roomId: string, message: RoomMessage) =>
 
 export const getRoomMessages = async (roomId: string): Promise<RoomMessage[]> => {
   try {
-    const { data, error } = await supabase
-      .from('room_messages')
-      .select('id, room_id, sender_id, body, created_at')
-      .eq('room_id', roomId)
-      .order('created_at', { ascending: false })
-      .limit(ROOM_MESSAGE_LIMIT);
+    const loadMessages = (select: string) =>
+      supabase
+        .from('room_messages')
+        .select(select)
+        .eq('room_id', roomId)
+        .order('created_at', { ascending: false })
+        .limit(ROOM_MESSAGE_LIMIT);
+    let { data, error } = await loadMessages(ROOM_MESSAGE_SELECT);
+    if (isMissingColumnError(error)) {
+      ({ data, error } = await loadMessages(ROOM_MESSAGE_BASIC_SELECT));
+    }
     if (error) {
       if (isMissingTableError(error) || isMissingColumnError(error)) {
         return getRoomMessagesFallback(roomId);
@@ -69,7 +92,7 @@ export const getRoomMessages = async (roomId: string): Promise<RoomMessage[]> =>
       return getRoomMessagesFallback(roomId);
     }
     try {
-      return (data ?? [])
+      return ((data ?? []) as any[])
         .slice()
         .reverse()
         .map((message) => ({
@@ -86,6 +109,85 @@ export const getRoomMessages = async (roomId: string): Promise<RoomMessage[]> =>
   }
 };
 
+export const getRoomMessagesByIds = async (roomId: string, messageIds: string[]): Promise<RoomMessage[]> => {
+  if (messageIds.length === 0) return [];
+  const fallback = getRoomMessagesFallback(roomId).filter((message) => messageIds.includes(message.id));
+  try {
+    const loadMessages = (select: string) =>
+      supabase.from('room_messages').select(select).eq('room_id', roomId).in('id', messageIds);
+    let { data, error } = await loadMessages(ROOM_MESSAGE_SELECT);
+    if (isMissingColumnError(error)) {
+      ({ data, error } = await loadMessages(ROOM_MESSAGE_BASIC_SELECT));
+    }
+    if (error) {
+      if (!isMissingTableError(error) && !isMissingColumnError(error)) {
+        console.warn('[RoomMessages] Load by id failed:', error.message ?? error);
+      }
+      return fallback;
+    }
+    const stored = ((data ?? []) as any[]).map((message) => ({
+      ...message,
+      body: decryptChatBody(message.body),
+    })) as RoomMessage[];
+    const storedIds = new Set(stored.map((message) => message.id));
+    return [...stored, ...fallback.filter((message) => !storedIds.has(message.id))];
+  } catch (err) {
+    console.warn('[RoomMessages] Load by id error:', err);
+    return fallback;
+  }
+};
+
+const persistRoomMessageChange = async (roomId: string, message: RoomMessage) => {
+  if (replaceRoomMessageFallback(roomId, message)) return { ok: true } as const;
+  try {
+    const body = encryptChatBody(message.body);
+    const { data, error } = await supabase
+      .from('room_messages')
+      .update({ body, edited_at: message.edited_at ?? null, deleted_at: message.deleted_at ?? null })
+      .eq('id', message.id)
+      .eq('room_id', roomId)
+      .is('deleted_at', null)
+      .select('id');
+    if (isMissingColumnError(error)) return roomMessageError(501, 'Message edits unsupported');
+    if (error) {
+      console.warn('[RoomMessages] Update failed:', error.message ?? error);
+      return roomMessageError(500, 'Room messages storage error');
+    }
+    if (!data || data.length === 0) return roomMessageError(404, 'Message not found');
+    return { ok: true } as const;
+  } catch (err) {
+    console.warn('[RoomMessages] Update error:', err);
+    return roomMessageError(500, 'Room messages storage error');
+  }
+};
+
+export const changeRoomMessage = async (
+  actorId: string,
+  roomId: string,
+  messageId: string,
+  change: RoomMessageChange,
+) => {
+  const [message] = await getRoomMessagesByIds(roomId, [messageId]);
+  if (!message || message.deleted_at) return roomMessageError(404, 'Message not found');
+  if (await isRoomArchived(roomId)) return roomMessageError(409, 'Room archived');
+
+  if (message.sender_id !== actorId) {
+    if (!('delete' in change)) return roomMessageError(403, 'Forbidden');
+    const adminCheck = await isRoomAdmin(roomId, actorId);
+    if (adminCheck.error) return roomMessageError(500, 'Rooms storage error');
+    if (!adminCheck.ok) return roomMessageError(403, 'Forbidden');
+  }
+
+  const changedAt = nowIso();
+  const updated: RoomMessage =
+    'delete' in change
+      ? { ...message, body: '', edited_at: null, deleted_at: changedAt }
+      : { ...message, body: change.body, edited_at: changedAt, deleted_at: null };
+  const result = await persistRoomMessageChange(roomId, updated);
+  if (!result.ok) return result;
+  return { ok: true, message: updated } as const;
+};
+
 export const canAccessRoomChat = async (
   userId: string,
   roomId: string,
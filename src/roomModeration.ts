@@ -0,0 +1,155 @@
+import { supabase } from "./supabase";
+import { rooms, users } from "./state";
+import { isRoomAdmin } from "./roomMembers";
+import { evictFromRoom } from "./rooms";
+import { banFromRoom, unbanFromRoom } from "./roomBans";
+import { revokeGuestLink } from "./guestLinks";
+import { broadcastToRoom, sendToUser } from "./ws";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+} from "./routes/shared";
+
+export type RoomModerationAction = "mute" | "kick" | "ban" | "unban";
+
+const ROOM_MODERATION_ACTIONS = new Set<RoomModerationAction>([
+  "mute",
+  "kick",
+  "ban",
+  "unban",
+]);
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+const isGuestId = (userId: string) => userId.startsWith("guest:");
+
+const resolveGuestLinkId = (guestId: string) => {
+  for (const socket of users.get(guestId) ?? []) {
+    if (socket.data.guestLinkId) return socket.data.guestLinkId;
+  }
+  return undefined;
+};
+
+const moderationError = (status: number, error: string) =>
+  ({ ok: false, status, error }) as const;
+
+const forceMuteParticipant = (
+  roomId: string,
+  userId: string,
+  actorId: string,
+  options: { audio: boolean; video: boolean },
+) => {
+  const participant = rooms.get(roomId)?.get(userId);
+  if (!participant) return false;
+  if (options.audio) participant.audioMuted = true;
+  if (options.video) participant.videoMuted = true;
+  sendToUser(userId, {
+    type: "room-force-muted",
+    roomId,
+    by: actorId,
+    audio: options.audio,
+    video: options.video,
+  });
+  broadcastToRoom(roomId, {
+    type: "room-media-state",
+    roomId,
+    userId,
+    state: {
+      audioMuted: participant.audioMuted,
+      videoMuted: participant.videoMuted,
+      screenSharing: participant.screenSharing,
+    },
+  });
+  return true;
+};
+
+export const moderateRoom = async (
+  actorId: string,
+  request: {
+    roomId?: unknown;
+    userId?: unknown;
+    action?: unknown;
+    audio?: unknown;
+    video?: unknown;
+    scope?: unknown;
+  },
+) => {
+  const roomId =
+    typeof request.roomId === "string" ? request.roomId.trim() : "";
+  const targetId =
+    typeof request.userId === "string" ? request.userId.trim() : "";
+  const action = typeof request.action === "string" ? request.action : "";
+  if (!roomId) return moderationError(400, "roomId is required");
+  if (!targetId) return moderationError(400, "userId is required");
+  if (!ROOM_MODERATION_ACTIONS.has(action as RoomModerationAction)) {
+    return moderationError(400, "Invalid action");
+  }
+  if (targetId === actorId) {
+    return moderationError(400, "Cannot moderate yourself");
+  }
+  const linkScope = action === "ban" && request.scope === "link";
+  if (linkScope && !isGuestId(targetId)) {
+    return moderationError(400, "Link scope applies only to guests");
+  }
+
+  const adminCheck = await isRoomAdmin(roomId, actorId);
+  if (adminCheck.error) {
+    return moderationError(500, "Rooms storage error");
+  }
+  if (!adminCheck.ok) return moderationError(403, "Forbidden");
+
+  if (!isGuestId(targetId)) {
+    const { data: room, error } = await supabase
+      .from("rooms")
+      .select("created_by")
+      .eq("id", roomId)
+      .maybeSingle();
+    if (error && !isMissingStorageError(error)) {
+      return moderationError(500, "Rooms storage error");
+    }
+    if (room?.created_by === targetId) {
+      return moderationError(409, "Cannot moderate room creator");
+    }
+  }
+
+  if (action === "mute") {
+    const audio = request.audio !== false;
+    const video = request.video === true;
+    if (!forceMuteParticipant(roomId, targetId, actorId, { audio, video })) {
+      return moderationError(404, "Participant not found");
+    }
+    return { ok: true } as const;
+  }
+
+  if (action === "unban") {
+    await unbanFromRoom(roomId, targetId);
+    return { ok: true } as const;
+  }
+
+  // A ban covers only the guest's own identity; scope "link" additionally
+  // revokes the link they joined with, cutting off everyone who shares it.
+  let revokedGuestLinkId: string | null = null;
+  if (linkScope) {
+    const linkId = resolveGuestLinkId(targetId);
+    if (!linkId) return moderationError(404, "Guest link not found");
+    const revoked = await revokeGuestLink(roomId, linkId);
+    if (!revoked.ok) return revoked;
+    revokedGuestLinkId = linkId;
+  }
+  if (action === "ban") await banFromRoom(roomId, targetId, actorId);
+  if (await evictFromRoom(roomId, targetId)) {
+    sendToUser(targetId, {
+      type: "room-kicked",
+      roomId,
+      banned: action === "ban",
+    });
+  } else if (action === "kick") {
+    return moderationError(404, "Participant not found");
+  }
+  return { ok: true, revokedGuestLinkId } as const;
+};
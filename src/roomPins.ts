@@ -0,0 +1,145 @@
+import { roomPinsByRoom, type InMemoryRoomPin } from "./state";
+import { supabase } from "./supabase";
+import { getRoomMessagesByIds } from "./roomMessages";
+import { isRoomAdmin } from "./roomMembers";
+import { isRoomArchived } from "./roomArchive";
+import { broadcastToRoomChat } from "./ws";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+  nowIso,
+} from "./routes/shared";
+
+const ROOM_PIN_LIMIT = 50;
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+const pinError = (status: number, error: string) =>
+  ({ ok: false, status, error }) as const;
+
+const listPinRecords = async (roomId: string) => {
+  const fallback = roomPinsByRoom.get(roomId) ?? [];
+  try {
+    const { data, error } = await supabase
+      .from("room_pinned_messages")
+      .select("room_id, message_id, pinned_by, pinned_at")
+      .eq("room_id", roomId)
+      .order("pinned_at", { ascending: true });
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn("[RoomPins] Load failed:", error.message ?? error);
+      }
+      return fallback;
+    }
+    return [...((data ?? []) as InMemoryRoomPin[]), ...fallback];
+  } catch (err) {
+    console.warn("[RoomPins] Load error:", err);
+    return fallback;
+  }
+};
+
+export const getRoomPins = async (roomId: string) => {
+  const records = await listPinRecords(roomId);
+  const messages = await getRoomMessagesByIds(
+    roomId,
+    records.map((record) => record.message_id),
+  );
+  const messagesById = new Map(
+    messages.map((message) => [message.id, message]),
+  );
+  return records.flatMap((record) => {
+    const message = messagesById.get(record.message_id);
+    return message && !message.deleted_at ? [{ ...record, message }] : [];
+  });
+};
+
+const storePin = async (pin: InMemoryRoomPin) => {
+  try {
+    const { error } = await supabase
+      .from("room_pinned_messages")
+      .upsert(pin, { onConflict: "room_id,message_id" });
+    if (!error) return;
+    if (!isMissingStorageError(error)) {
+      console.warn("[RoomPins] Insert failed:", error.message ?? error);
+    }
+  } catch (err) {
+    console.warn("[RoomPins] Insert error:", err);
+  }
+  const existing = roomPinsByRoom.get(pin.room_id) ?? [];
+  existing.push(pin);
+  roomPinsByRoom.set(pin.room_id, existing);
+};
+
+const deletePin = async (roomId: string, messageId: string) => {
+  const fallback = roomPinsByRoom.get(roomId);
+  if (fallback) {
+    const remaining = fallback.filter((pin) => pin.message_id !== messageId);
+    if (remaining.length > 0) roomPinsByRoom.set(roomId, remaining);
+    else roomPinsByRoom.delete(roomId);
+  }
+  try {
+    const { error } = await supabase
+      .from("room_pinned_messages")
+      .delete()
+      .eq("room_id", roomId)
+      .eq("message_id", messageId);
+    if (error && !isMissingStorageError(error)) {
+      console.warn("[RoomPins] Delete failed:", error.message ?? error);
+    }
+  } catch (err) {
+    console.warn("[RoomPins] Delete error:", err);
+  }
+};
+
+export const setRoomMessagePinned = async (
+  actorId: string,
+  roomId: string,
+  messageId: string,
+  pinned: boolean,
+) => {
+  const adminCheck = await isRoomAdmin(roomId, actorId);
+  if (adminCheck.error) return pinError(500, "Rooms storage error");
+  if (!adminCheck.ok) return pinError(403, "Forbidden");
+  if (await isRoomArchived(roomId)) return pinError(409, "Room archived");
+
+  const records = await listPinRecords(roomId);
+  const isPinned = records.some((record) => record.message_id === messageId);
+
+  if (!pinned) {
+    if (!isPinned) return pinError(404, "Pinned message not found");
+    await deletePin(roomId, messageId);
+    broadcastToRoomChat(roomId, {
+      type: "room-message-unpinned",
+      roomId,
+      messageId,
+      by: actorId,
+    });
+    return { ok: true } as const;
+  }
+
+  if (isPinned) return pinError(409, "Message already pinned");
+  if (records.length >= ROOM_PIN_LIMIT) return pinError(409, "Too many pins");
+  const [message] = await getRoomMessagesByIds(roomId, [messageId]);
+  if (!message || message.deleted_at) {
+    return pinError(404, "Message not found");
+  }
+
+  const pin: InMemoryRoomPin = {
+    room_id: roomId,
+    message_id: messageId,
+    pinned_by: actorId,
+    pinned_at: nowIso(),
+  };
+  await storePin(pin);
+  broadcastToRoomChat(roomId, {
+    type: "room-message-pinned",
+    roomId,
+    pin: { ...pin, message },
+  });
+  return { ok: true, pin: { ...pin, message } } as const;
+};
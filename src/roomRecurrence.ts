@@ -0,0 +1,119 @@
+import { supabase } from "./supabase";
+import { MISSING_COLUMN_ERROR_CODE, nowIso } from "./routes/shared";
+
+export interface RoomRecurrence {
+  rule: string;
+  startsAt: string;
+  durationMinutes: number;
+}
+
+const RECURRENCE_FREQUENCIES = new Set([
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+]);
+const WEEKDAY_PATTERN = /^(MO|TU|WE|TH|FR|SA|SU)$/;
+const BYDAY_PATTERN = /^([+-]?[1-5])?(MO|TU|WE|TH|FR|SA|SU)$/;
+const UNTIL_PATTERN = /^\d{8}(T\d{6}Z)?$/;
+
+const isIntInRange = (value: string, min: number, max: number) => {
+  if (!/^[+-]?\d+$/.test(value)) return false;
+  const parsed = Number.parseInt(value, 10);
+  return parsed >= min && parsed <= max;
+};
+
+const isIntList = (value: string, min: number, max: number) =>
+  value
+    .split(",")
+    .every((item) => isIntInRange(item, min, max) && Number(item) !== 0);
+
+export const normalizeRecurrenceRule = (value: string) => {
+  const raw = value
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .toUpperCase();
+  if (!raw) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of raw.split(";")) {
+    if (!part) continue;
+    const [key, partValue, ...rest] = part.split("=");
+    if (!key || !partValue || rest.length > 0 || parts.has(key)) return null;
+    parts.set(key, partValue);
+  }
+
+  const frequency = parts.get("FREQ");
+  if (!frequency || !RECURRENCE_FREQUENCIES.has(frequency)) return null;
+  if (parts.has("COUNT") && parts.has("UNTIL")) return null;
+
+  for (const [key, partValue] of parts) {
+    const valid =
+      key === "FREQ" ||
+      (key === "INTERVAL" && isIntInRange(partValue, 1, 366)) ||
+      (key === "COUNT" && isIntInRange(partValue, 1, 1000)) ||
+      (key === "UNTIL" && UNTIL_PATTERN.test(partValue)) ||
+      (key === "WKST" && WEEKDAY_PATTERN.test(partValue)) ||
+      (key === "BYDAY" &&
+        partValue.split(",").every((day) => BYDAY_PATTERN.test(day))) ||
+      (key === "BYMONTHDAY" && isIntList(partValue, -31, 31)) ||
+      (key === "BYMONTH" && isIntList(partValue, 1, 12));
+    if (!valid) return null;
+  }
+
+  const until = parts.get("UNTIL");
+  if (until && until.length === 8) parts.set("UNTIL", `${until}T235959Z`);
+
+  return Array.from(parts, ([key, partValue]) => `${key}=${partValue}`).join(
+    ";",
+  );
+};
+
+export const setRoomRecurrence = async (
+  roomId: string,
+  recurrence: RoomRecurrence | null,
+) => {
+  const { error } = await supabase
+    .from("rooms")
+    .update({
+      recurrence_rule: recurrence?.rule ?? null,
+      recurrence_starts_at: recurrence?.startsAt ?? null,
+      recurrence_duration_minutes: recurrence?.durationMinutes ?? null,
+      updated_at: nowIso(),
+    })
+    .eq("id", roomId);
+  if (error) {
+    if (error.code === MISSING_COLUMN_ERROR_CODE) {
+      return { ok: false, supported: false, error } as const;
+    }
+    return { ok: false, supported: true, error } as const;
+  }
+  return { ok: true, supported: true } as const;
+};
+
+export const getRoomRecurrences = async (roomIds: string[]) => {
+  const recurrences = new Map<string, RoomRecurrence>();
+  if (roomIds.length === 0) return recurrences;
+  const { data, error } = await supabase
+    .from("rooms")
+    .select(
+      "id, recurrence_rule, recurrence_starts_at, recurrence_duration_minutes",
+    )
+    .in("id", roomIds)
+    .not("recurrence_rule", "is", null);
+  if (error) {
+    if (error.code !== MISSING_COLUMN_ERROR_CODE) {
+      console.warn("[RoomRecurrence] Lookup failed:", error.message ?? error);
+    }
+    return recurrences;
+  }
+  for (const row of data ?? []) {
+    if (!row.recurrence_rule || !row.recurrence_starts_at) continue;
+    recurrences.set(row.id, {
+      rule: row.recurrence_rule,
+      startsAt: row.recurrence_starts_at,
+      durationMinutes: row.recurrence_duration_minutes ?? 60,
+    });
+  }
+  return recurrences;
+};
@@ -1,15 +1,29 @@
 import type { ServerWebSocket } from "bun";
-import type { WSData } from "./types";
+import type { JoinRoomOptions, RoomParticipant, WSData } from "./types";
 import { supabase } from "./supabase";
-import { rooms } from "./state";
+import { guestLinksValidAfterByRoom, rooms, users } from "./state";
 import { clearRoomMessages, getRoomMessages } from "./roomMessages";
 import {
   ensureRoomMember,
   getRoomMemberRole,
+  isRoomAdmin,
   ROOM_MEMBER_ROLE_ADMIN,
   ROOM_MEMBER_ROLE_MEMBER,
 } from "./roomMembers";
-import { broadcastToRoom, sendJson } from "./ws";
+import { broadcastToRoom, broadcastToRoomChat, sendJson } from "./ws";
+import { finishRoomCallLog, startRoomCallLog } from "./callHistory";
+import { isBannedFromRoom } from "./roomBans";
+import { getRoomPins } from "./roomPins";
+import {
+  normalizeRoomType,
+  notifyVoiceChannelOccupancy,
+} from "./voiceChannels";
+import { leaveLobby, parkInLobby, takeLobbyEntry } from "./roomLobby";
+import {
+  clearHandQueue,
+  getHandQueue,
+  removeFromHandQueue,
+} from "./roomHands";
 
 const MISSING_TABLE_ERROR_CODE = "42P01";
 const MISSING_COLUMN_ERROR_CODE = "42703";
@@ -65,7 +79,12 @@ const ensureRoomRecord = async (
   roomId: string,
   userId: string,
   createIfMissing: boolean,
-  options?: { name?: string; isPrivate?: boolean; password?: string },
+  options?: {
+    name?: string;
+    isPrivate?: boolean;
+    password?: string;
+    roomType?: string;
+  },
 ) => {
   try {
     const { data: room, error } = await supabase
@@ -96,7 +115,7 @@ const ensureRoomRecord = async (
       const payload: Record<string, any> = {
         id: roomId,
         name: roomName,
-        room_type: "group",
+        room_type: normalizeRoomType(options?.roomType),
         created_by: userId,
         is_active: true,
         max_participants: null,
@@ -183,20 +202,12 @@ const setRoomActive = async (roomId: string, isActive: boolean) => {
 export async function handleJoinRoom(
   ws: ServerWebSocket<WSData>,
   roomId: string,
-  options?: {
-    createIfMissing?: boolean;
-    name?: string;
-    isPrivate?: boolean;
-    password?: string;
-    actor?: {
-      isGuest?: boolean;
-      allowPrivateBypass?: boolean;
-    };
-  },
+  options?: JoinRoomOptions,
 ) {
   const { userId } = ws.data;
   const isGuest = Boolean(options?.actor?.isGuest);
   const allowPrivateBypass = Boolean(options?.actor?.allowPrivateBypass);
+  await leaveLobby(ws);
   if (ws.data.roomId && ws.data.roomId !== roomId) {
     await handleLeaveRoom(ws, { skipPresence: isGuest });
   }
@@ -206,11 +217,16 @@ export async function handleJoinRoom(
     name: isGuest ? undefined : options?.name,
     isPrivate: isGuest ? undefined : options?.isPrivate,
     password: isGuest ? undefined : options?.password,
+    roomType: isGuest ? undefined : options?.roomType,
   });
   if (isGuest && !roomResult.room && !rooms.has(roomId)) {
     sendJson(ws, { type: "error", message: "Room not found" });
     return;
   }
+  if (await isBannedFromRoom(roomId, userId)) {
+    sendJson(ws, { type: "error", message: "Banned from room" });
+    return;
+  }
   if (!roomResult.allowed) {
     const errorMessage = (() => {
       switch (roomResult.error) {
@@ -231,6 +247,10 @@ export async function handleJoinRoom(
     sendJson(ws, { type: "error", message: errorMessage });
     return;
   }
+  if (roomResult.room?.archived_at) {
+    sendJson(ws, { type: "error", message: "Room archived" });
+    return;
+  }
 
   const membershipResult = !isGuest
     ? await getRoomMemberRole(roomId, userId)
@@ -253,7 +273,7 @@ export async function handleJoinRoom(
   if (isGuest) {
     const activeRoom = rooms.get(roomId);
     const hasAuthenticated = activeRoom
-      ? Array.from(activeRoom).some((id) => !id.startsWith("guest:"))
+      ? Array.from(activeRoom.keys()).some((id) => !id.startsWith("guest:"))
       : false;
     if (!hasAuthenticated) {
       sendJson(ws, { type: "error", message: "Room inactive" });
@@ -294,9 +314,34 @@ export async function handleJoinRoom(
     }
   }
 
+  if (
+    roomResult.room?.lobby_enabled &&
+    !allowMemberBypass &&
+    !options?.lobbyAdmitted
+  ) {
+    await parkInLobby(ws, roomId, options);
+    return;
+  }
+
   ws.data.roomId = roomId;
-  if (!rooms.has(roomId)) rooms.set(roomId, new Set());
-  rooms.get(roomId)!.add(userId);
+  if (!rooms.has(roomId)) rooms.set(roomId, new Map());
+  const participant: RoomParticipant = {
+    userId,
+    joinedAt: nowIso(),
+    audioMuted: false,
+    videoMuted: isGuest && !options?.actor?.permissions?.video,
+    screenSharing: false,
+    ...(isGuest
+      ? {
+          isGuest: true,
+          displayName: options?.actor?.displayName,
+          permissions: options?.actor?.permissions,
+        }
+      : {}),
+  };
+  rooms.get(roomId)!.set(userId, participant);
+  notifyVoiceChannelOccupancy(roomId);
+  startRoomCallLog(roomId, userId, options?.callType);
   if (!isGuest) {
     await upsertParticipantJoin(roomId, userId);
     const desiredRole = isCreator
@@ -306,10 +351,16 @@ export async function handleJoinRoom(
   }
   await setRoomActive(roomId, true);
 
+  const pins = await getRoomPins(roomId);
   sendJson(ws, {
     type: "room-joined",
     roomId,
-    users: Array.from(rooms.get(roomId)!),
+    users: Array.from(rooms.get(roomId)!.keys()),
+    participants: getRoomParticipants(roomId),
+    handQueue: getHandQueue(roomId),
+    topic: roomResult.room?.topic ?? null,
+    description: roomResult.room?.description ?? null,
+    pins,
     selfId: userId,
   });
   const roomMessages = await getRoomMessages(roomId);
@@ -318,35 +369,40 @@ export async function handleJoinRoom(
       type: "room-messages",
       roomId,
       messages: roomMessages,
+      topic: roomResult.room?.topic ?? null,
+      description: roomResult.room?.description ?? null,
+      pins,
     });
   }
   broadcastToRoom(
     roomId,
-    { type: "room-user-joined", roomId, userId },
+    { type: "room-user-joined", roomId, userId, participant },
     userId,
   );
 }
 
-export async function handleLeaveRoom(
-  ws: ServerWebSocket<WSData>,
+const removeParticipant = async (
+  roomId: string,
+  userId: string,
   options?: { skipPresence?: boolean },
-) {
-  const { userId, roomId } = ws.data;
-  if (!roomId) return;
-
+) => {
   const room = rooms.get(roomId);
+  finishRoomCallLog(roomId, userId);
   if (room) {
     room.delete(userId);
+    notifyVoiceChannelOccupancy(roomId);
     if (room.size === 0) {
       rooms.delete(roomId);
       clearRoomMessages(roomId);
-    }
-    else
+      clearHandQueue(roomId);
+    } else {
+      removeFromHandQueue(roomId, userId);
       broadcastToRoom(
         roomId,
         { type: "room-user-left", roomId, userId },
         userId,
       );
+    }
   }
   if (!options?.skipPresence) {
     await deactivateParticipant(roomId, userId);
@@ -354,6 +410,16 @@ export async function handleLeaveRoom(
   if (!rooms.has(roomId)) {
     await setRoomActive(roomId, false);
   }
+};
+
+export async function handleLeaveRoom(
+  ws: ServerWebSocket<WSData>,
+  options?: { skipPresence?: boolean },
+) {
+  const { userId, roomId } = ws.data;
+  if (!roomId) return;
+
+  await removeParticipant(roomId, userId, options);
   ws.data.roomId = undefined;
 }
 
@@ -363,29 +429,223 @@ export async function removeUserFromRooms(
 ) {
   for (const [roomId, room] of rooms) {
     if (!room.has(userId)) continue;
-    room.delete(userId);
-    if (room.size === 0) {
-      rooms.delete(roomId);
-      clearRoomMessages(roomId);
-    }
-    else
-      broadcastToRoom(
-        roomId,
-        { type: "room-user-left", roomId, userId },
-        userId,
-      );
-    if (!options?.skipPresence) {
-      await deactivateParticipant(roomId, userId);
-    }
-    if (!rooms.has(roomId)) {
-      await setRoomActive(roomId, false);
-    }
+    await removeParticipant(roomId, userId, options);
   }
 }
 
+export async function evictFromRoom(roomId: string, userId: string) {
+  if (!rooms.get(roomId)?.has(userId)) return false;
+  for (const socket of users.get(userId) ?? []) {
+    if (socket.data.roomId === roomId) socket.data.roomId = undefined;
+  }
+  await removeParticipant(roomId, userId, {
+    skipPresence: userId.startsWith("guest:"),
+  });
+  return true;
+}
+
 export function isUserInAnyRoom(userId: string) {
   for (const room of rooms.values()) {
     if (room.has(userId)) return true;
   }
   return false;
 }
+
+export function getRoomParticipants(roomId: string) {
+  return Array.from(rooms.get(roomId)?.values() ?? []);
+}
+
+export function updateRoomMediaState(
+  roomId: string,
+  userId: string,
+  patch: Record<string, unknown>,
+) {
+  const participant = rooms.get(roomId)?.get(userId);
+  if (!participant) return null;
+  let changed = false;
+  for (const key of ["audioMuted", "videoMuted", "screenSharing"] as const) {
+    const value = patch[key];
+    if (typeof value !== "boolean" || participant[key] === value) continue;
+    participant[key] = value;
+    changed = true;
+  }
+  return changed ? participant : null;
+}
+
+export async function resolveLobbyRequest(
+  actorId: string,
+  roomId: string,
+  userId: string,
+  action: "admit" | "deny",
+) {
+  const adminCheck = await isRoomAdmin(roomId, actorId);
+  if (adminCheck.error) {
+    return { ok: false, status: 500, error: "Rooms storage error" } as const;
+  }
+  if (!adminCheck.ok) {
+    return { ok: false, status: 403, error: "Forbidden" } as const;
+  }
+  const entry = takeLobbyEntry(roomId, userId);
+  if (!entry) {
+    return { ok: false, status: 404, error: "Lobby request not found" } as const;
+  }
+  if (action === "deny") {
+    sendJson(entry.ws, { type: "lobby-denied", roomId });
+    return { ok: true } as const;
+  }
+  await handleJoinRoom(entry.ws, roomId, {
+    ...entry.options,
+    lobbyAdmitted: true,
+  });
+  return { ok: true } as const;
+}
+
+export interface RoomSettingsPatch {
+  maxParticipants?: number | null;
+  isPrivate?: boolean;
+  password?: string;
+  invalidateGuestLinks?: boolean;
+  topic?: string | null;
+  description?: string | null;
+}
+
+export async function updateRoomSettings(
+  roomId: string,
+  room: Record<string, any>,
+  settings: RoomSettingsPatch,
+) {
+  const payload: Record<string, any> = {};
+  if (settings.maxParticipants !== undefined) {
+    payload.max_participants = settings.maxParticipants;
+  }
+  if (settings.password !== undefined) {
+    const passwordHash = await hashRoomPassword(settings.password);
+    if (!passwordHash) {
+      return {
+        ok: false,
+        status: 400,
+        error: "Invalid room password",
+      } as const;
+    }
+    payload.password_hash = passwordHash;
+  }
+  const isPrivate = settings.isPrivate ?? Boolean(room.is_private);
+  if (settings.isPrivate !== undefined) {
+    if (isPrivate && !payload.password_hash && !room.password_hash) {
+      return {
+        ok: false,
+        status: 400,
+        error: "Room password required",
+      } as const;
+    }
+    payload.is_private = isPrivate;
+    if (!isPrivate && settings.password === undefined) {
+      payload.password_hash = null;
+    }
+  }
+
+  if (settings.topic !== undefined) payload.topic = settings.topic;
+  if (settings.description !== undefined) {
+    payload.description = settings.description;
+  }
+
+  if (Object.keys(payload).length > 0) {
+    const { error } = await supabase
+      .from("rooms")
+      .update({ ...payload, updated_at: nowIso() })
+      .eq("id", roomId);
+    if (error) {
+      logRoomWarning("settings update", error);
+      if (isMissingColumnError(error)) {
+        return {
+          ok: false,
+          status: 400,
+          error: "Room settings unsupported",
+        } as const;
+      }
+      return { ok: false, status: 500, error: "Room error" } as const;
+    }
+  }
+
+  if (settings.invalidateGuestLinks) {
+    const validAfter = new Date();
+    guestLinksValidAfterByRoom.set(roomId, validAfter.getTime());
+    const { error } = await supabase
+      .from("rooms")
+      .update({ guest_links_valid_after: validAfter.toISOString() })
+      .eq("id", roomId);
+    if (error && !isMissingColumnError(error)) {
+      logRoomWarning("guest link invalidation", error);
+    }
+  }
+
+  const maxParticipants =
+    settings.maxParticipants !== undefined
+      ? settings.maxParticipants
+      : (room.max_participants ?? null);
+  const topic =
+    settings.topic !== undefined ? settings.topic : (room.topic ?? null);
+  const description =
+    settings.description !== undefined
+      ? settings.description
+      : (room.description ?? null);
+  broadcastToRoom(roomId, {
+    type: "room-settings-updated",
+    roomId,
+    maxParticipants,
+    isPrivate,
+    topic,
+    description,
+  });
+  if (settings.topic !== undefined || settings.description !== undefined) {
+    broadcastToRoomChat(roomId, {
+      type: "room-topic-updated",
+      roomId,
+      topic,
+      description,
+    });
+  }
+  return { ok: true, maxParticipants, isPrivate, topic, description } as const;
+}
+
+export async function getRoomTopic(roomId: string) {
+  const { data, error } = await supabase
+    .from("rooms")
+    .select("topic, description")
+    .eq("id", roomId)
+    .maybeSingle();
+  if (error) {
+    if (!isMissingColumnError(error) && !isMissingTableError(error)) {
+      logRoomWarning("topic lookup", error);
+    }
+    return { topic: null, description: null };
+  }
+  return {
+    topic: (data?.topic as string | null) ?? null,
+    description: (data?.description as string | null) ?? null,
+  };
+}
+
+export async function getGuestLinksValidAfter(roomId: string) {
+  const memoryCutoff = guestLinksValidAfterByRoom.get(roomId) ?? 0;
+  const { data, error } = await supabase
+    .from("rooms")
+    .select("guest_links_valid_after")
+    .eq("id", roomId)
+    .maybeSingle();
+  if (error) {
+    if (!isMissingColumnError(error) && !isMissingTableError(error)) {
+      logRoomWarning("guest link lookup", error);
+    }
+    return memoryCutoff;
+  }
+  const cutoff = data?.guest_links_valid_after
+    ? new Date(data.guest_links_valid_after).getTime()
+    : 0;
+  return Math.max(memoryCutoff, cutoff);
+}
+
+export async function isGuestLinkCurrent(roomId: string, createdAt: string) {
+  const validAfter = await getGuestLinksValidAfter(roomId);
+  return new Date(createdAt).getTime() >= validAfter;
+}
@@ -2,6 +2,7 @@ import type { RouteHandler } from './routes/shared';
 import { authRoutes } from './routes/auth';
 import { callHistoryRoutes } from './routes/callHistory';
 import { contactRoutes } from './routes/contacts';
+import { meetingRoutes } from './routes/meetings';
 import { messageRoutes } from './routes/messages';
 import { profileRoutes } from './routes/profile';
 import { roomRoutes } from './routes/rooms';
@@ -13,6 +14,7 @@ export const routes: Record<string, RouteHandler> = {
   ...userRoutes,
   ...contactRoutes,
   ...roomRoutes,
+  ...meetingRoutes,
   ...messageRoutes,
   ...callHistoryRoutes,
 };
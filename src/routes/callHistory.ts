@@ -3,6 +3,8 @@ import { errorResponse, getBearerToken, jsonResponse } from '../http';
 import { supabase, validateToken } from '../supabase';
 import { callHistoryByUser } from '../state';
 import { normalizeAvatarUrl } from '../storage';
+import { isRoomArchived } from '../roomArchive';
+import { canViewCallQuality, getCallQualityReports, rateCallQuality } from '../callQuality';
 
 import type { RouteHandler } from './shared';
 import {
@@ -18,6 +20,13 @@ import {
   parseDate,
 } from './shared';
 
+const callHistoryAdminIds = new Set(
+  (process.env.CALL_HISTORY_ADMIN_IDS ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+);
+
 async function attachPeers(
   calls: Array<{
     id: string;
@@ -186,6 +195,10 @@ export const callHistoryRoutes: Record<string, RouteHandler> = {
     }
 
     if (req.method === 'POST') {
+      // Calls are recorded by the signaling server; manual entries are admin-only.
+      if (!callHistoryAdminIds.has(userId)) {
+        return jsonResponse({ ok: true, recorded: false }, 202);
+      }
       try {
         const body = (await req.json()) as CreateCallHistoryRequest;
         const peerId = typeof body.peerId === 'string' ? body.peerId.trim() : '';
@@ -198,6 +211,9 @@ export const callHistoryRoutes: Record<string, RouteHandler> = {
         if (peerId && roomId) {
           return errorResponse('peerId and roomId cannot both be set', 400);
         }
+        if (roomId && (await isRoomArchived(roomId))) {
+          return errorResponse('Room archived', 409);
+        }
         if (!allowedCallDirections.has(body.direction)) {
           return errorResponse('Invalid direction', 400);
         }
@@ -261,4 +277,30 @@ export const callHistoryRoutes: Record<string, RouteHandler> = {
 
     return errorResponse('Method not allowed', 405);
   },
+
+  '/api/call-history/quality': async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse('Unauthorized', 401);
+    if (req.method !== 'GET') return errorResponse('Method not allowed', 405);
+
+    const url = new URL(req.url);
+    const callId = url.searchParams.get('callId')?.trim() ?? '';
+    if (!callId) return errorResponse('callId is required', 400);
+
+    if (!(await canViewCallQuality(userId, callId))) {
+      return errorResponse('Call not found', 404);
+    }
+
+    const { reports, error } = await getCallQualityReports(callId);
+    if (error) return errorResponse(error.message ?? 'Call quality storage error', 500);
+
+    return jsonResponse({
+      callId,
+      participants: reports.map((report) => ({
+        ...report,
+        rating: rateCallQuality(report),
+      })),
+    });
+  },
 };
@@ -0,0 +1,136 @@
+import { randomUUID } from "node:crypto";
+import { errorResponse, getBearerToken, jsonResponse } from "../http";
+import { validateToken } from "../supabase";
+import { isRoomAdmin } from "../roomMembers";
+import {
+  cancelMeeting,
+  createMeeting,
+  getMeeting,
+  getMeetingEndsAt,
+  listUpcomingMeetings,
+} from "../meetings";
+
+import type { RouteHandler } from "./shared";
+import { MISSING_TABLE_ERROR_CODE, nowIso, parseDate } from "./shared";
+
+const MEETING_TITLE_MAX_LENGTH = 200;
+const MEETING_MAX_DURATION_MINUTES = 24 * 60;
+const MEETING_MAX_INVITEES = 100;
+
+const meetingStorageError = (error: any) => {
+  if (error?.code === MISSING_TABLE_ERROR_CODE) {
+    return errorResponse("Meetings storage is not configured", 501);
+  }
+  return errorResponse(error?.message ?? "Meetings storage error", 500);
+};
+
+export const meetingRoutes: Record<string, RouteHandler> = {
+  "/api/meetings": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+
+    if (req.method === "POST") {
+      let body: {
+        roomId?: string;
+        title?: string;
+        startsAt?: string;
+        durationMinutes?: number;
+        inviteeIds?: unknown;
+      };
+      try {
+        body = (await req.json()) as typeof body;
+      } catch {
+        return errorResponse("Invalid request body", 400);
+      }
+
+      const roomId = typeof body.roomId === "string" ? body.roomId.trim() : "";
+      const title = typeof body.title === "string" ? body.title.trim() : "";
+      const startsAt =
+        typeof body.startsAt === "string" ? parseDate(body.startsAt) : null;
+      const durationMinutes = Number(body.durationMinutes);
+      if (!roomId) return errorResponse("roomId is required", 400);
+      if (!title) return errorResponse("title is required", 400);
+      if (title.length > MEETING_TITLE_MAX_LENGTH)
+        return errorResponse("title is too long", 400);
+      if (!startsAt) return errorResponse("startsAt is required", 400);
+      if (new Date(startsAt).getTime() <= Date.now())
+        return errorResponse("startsAt must be in the future", 400);
+      if (
+        !Number.isInteger(durationMinutes) ||
+        durationMinutes <= 0 ||
+        durationMinutes > MEETING_MAX_DURATION_MINUTES
+      ) {
+        return errorResponse("Invalid durationMinutes", 400);
+      }
+      if (body.inviteeIds !== undefined && !Array.isArray(body.inviteeIds)) {
+        return errorResponse("inviteeIds must be an array", 400);
+      }
+
+      const inviteeIds = Array.from(
+        new Set(
+          ((body.inviteeIds as unknown[] | undefined) ?? [])
+            .filter((id): id is string => typeof id === "string")
+            .map((id) => id.trim())
+            .filter((id) => id && id !== userId),
+        ),
+      );
+      if (inviteeIds.length > MEETING_MAX_INVITEES) {
+        return errorResponse("Too many invitees", 400);
+      }
+
+      const adminCheck = await isRoomAdmin(roomId, userId);
+      if (adminCheck.error) return meetingStorageError(adminCheck.error);
+      if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+
+      const meeting = await createMeeting({
+        id: randomUUID(),
+        room_id: roomId,
+        title,
+        starts_at: startsAt,
+        duration_minutes: durationMinutes,
+        invitee_ids: inviteeIds,
+        created_by: userId,
+        created_at: nowIso(),
+        reminded_at: null,
+      });
+      return jsonResponse({ meeting }, 201);
+    }
+
+    if (req.method === "DELETE") {
+      const url = new URL(req.url);
+      const meetingId = url.searchParams.get("id")?.trim() ?? "";
+      if (!meetingId) return errorResponse("id is required", 400);
+
+      const { meeting, error } = await getMeeting(meetingId);
+      if (error) return meetingStorageError(error);
+      if (!meeting) return errorResponse("Meeting not found", 404);
+
+      if (meeting.created_by !== userId) {
+        const adminCheck = await isRoomAdmin(meeting.room_id, userId);
+        if (adminCheck.error) return meetingStorageError(adminCheck.error);
+        if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+      }
+      if (getMeetingEndsAt(meeting) <= Date.now()) {
+        return errorResponse("Meeting already ended", 409);
+      }
+
+      const result = await cancelMeeting(meeting, userId);
+      if (!result.ok) return meetingStorageError(result.error);
+      return jsonResponse({ ok: true });
+    }
+
+    return errorResponse("Method not allowed", 405);
+  },
+
+  "/api/meetings/mine": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+    if (req.method !== "GET") return errorResponse("Method not allowed", 405);
+
+    const { meetings, error } = await listUpcomingMeetings(userId);
+    if (error) return meetingStorageError(error);
+    return jsonResponse({ meetings });
+  },
+};
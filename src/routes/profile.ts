@@ -3,6 +3,7 @@ import { createHmac } from 'node:crypto';
 import type { UpdateProfileRequest } from '../types';
 import { errorResponse, getBearerToken, jsonResponse } from '../http';
 import { verifyGuestToken } from '../guestTokens';
+import { checkGuestLink } from '../guestLinks';
 import { supabase, validateToken } from '../supabase';
 import {
   deleteAvatarByUrl,
@@ -267,7 +268,9 @@ export const profileRoutes: Record<string, RouteHandler> = {
     const url = new URL(req.url);
     const token = getBearerToken(req) ?? url.searchParams.get('token');
     const payload = verifyGuestToken(token);
-    if (!payload) return errorResponse('Unauthorized', 401);
+    if (!payload?.linkId || !(await checkGuestLink(payload.linkId, payload.roomId))) {
+      return errorResponse('Unauthorized', 401);
+    }
 
     try {
       const signature = token?.split('.')[1] ?? '';
@@ -1,4 +1,9 @@
-import { errorResponse, getBearerToken, jsonResponse } from "../http";
+import {
+  calendarResponse,
+  errorResponse,
+  getBearerToken,
+  jsonResponse,
+} from "../http";
 import { supabase, validateToken } from "../supabase";
 import { rooms } from "../state";
 import {
@@ -8,34 +13,83 @@ import {
   processAvatarImage,
   uploadRoomAvatar,
 } from "../storage";
-import { createGuestToken } from "../guestTokens";
+import {
+  claimRoomInviteLink,
+  createRoomInviteLink,
+  listRoomInviteLinks,
+  recordRoomInviteLinkUse,
+  revokeRoomInviteLink,
+  type RoomInviteLink,
+} from "../roomInviteLinks";
+import {
+  createGuestLink,
+  getSharedGuestLink,
+  listGuestLinks,
+  revokeGuestLink,
+  type GuestLink,
+} from "../guestLinks";
 import {
   canAccessRoomChat,
+  changeRoomMessage,
   getRoomMessages,
   storeRoomMessage,
 } from "../roomMessages";
-import {
-  createRoomInviteToken,
-  verifyRoomInviteToken,
-} from "../roomInviteTokens";
+import { verifyRoomInviteToken } from "../roomInviteTokens";
 import {
   addRoomMember,
+  ensureRoomMember,
   getRoomMemberRole,
   isRoomAdmin,
+  listRoomMemberIds,
   listRoomMembers,
   removeRoomMember,
   ROOM_MEMBER_ROLE_ADMIN,
   ROOM_MEMBER_ROLE_MEMBER,
   setRoomMemberRole,
 } from "../roomMembers";
-import { broadcastToRoom, broadcastToRoomChat, sendToUser } from "../ws";
-
+import { broadcastToRoomChat, sendToUser } from "../ws";
+import {
+  evictFromRoom,
+  resolveLobbyRequest,
+  updateRoomSettings,
+} from "../rooms";
+import { listLobby } from "../roomLobby";
+import { getRoomPins, setRoomMessagePinned } from "../roomPins";
+import {
+  getArchivedRoomIds,
+  getPurgeAvailableAt,
+  isRoomArchived,
+  setRoomArchived,
+} from "../roomArchive";
+import { moderateRoom } from "../roomModeration";
+import {
+  getRoomRecurrences,
+  normalizeRecurrenceRule,
+  setRoomRecurrence,
+} from "../roomRecurrence";
+import {
+  buildRoomCalendar,
+  buildRoomJoinUrl,
+  getCalendarFeedToken,
+  resolveCalendarFeedUser,
+  type CalendarRoomEvent,
+} from "../calendarFeeds";
+import {
+  ROOM_TYPE_GROUP,
+  ROOM_TYPE_VOICE_CHANNEL,
+  getConnectedParticipants,
+  listMemberVoiceChannels,
+} from "../voiceChannels";
+import { discoverRooms } from "../roomDiscovery";
+
+import type { GuestPermissions } from "../types";
 import type { RouteHandler } from "./shared";
 import {
   MISSING_COLUMN_ERROR_CODE,
   MISSING_TABLE_ERROR_CODE,
   ROOM_MESSAGE_MAX_LENGTH,
   nowIso,
+  parseDate,
 } from "./shared";
 
 const ROOM_INVITE_STATUS_PENDING = "pending";
@@ -51,6 +105,107 @@ const roomStorageError = (error: any) => {
   return errorResponse(error?.message ?? "Rooms storage error", 500);
 };
 
+const ROOM_MAX_PARTICIPANTS_LIMIT = 500;
+
+const parseBooleanField = (value: unknown) => {
+  if (value === undefined) return undefined;
+  if (typeof value === "boolean") return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return null;
+};
+
+const parseMaxParticipants = (value: unknown) => {
+  if (value === undefined) return undefined;
+  if (value === null || value === "" || value === "null") return null;
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (
+    typeof parsed !== "number" ||
+    !Number.isInteger(parsed) ||
+    parsed < 2 ||
+    parsed > ROOM_MAX_PARTICIPANTS_LIMIT
+  ) {
+    return false;
+  }
+  return parsed;
+};
+
+const ROOM_TOPIC_MAX_LENGTH = 200;
+const ROOM_DESCRIPTION_MAX_LENGTH = 2000;
+
+const parseTextField = (value: unknown, maxLength: number) => {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== "string") return false;
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) return false;
+  return trimmed || null;
+};
+
+const ROOM_RECURRENCE_MAX_DURATION_MINUTES = 24 * 60;
+const CALENDAR_GUEST_LINK_TTL_SECONDS = 86_400;
+const CALENDAR_GUEST_LINK_LABEL = "calendar";
+const DISCOVERY_DEFAULT_LIMIT = 20;
+const DISCOVERY_MAX_LIMIT = 50;
+const GUEST_LINK_MAX_USES_LIMIT = 1000;
+const GUEST_LINK_LABEL_MAX_LENGTH = 100;
+const INVITE_LINK_MAX_USES_LIMIT = 1000;
+
+const formatRoomInviteLink = (link: RoomInviteLink) => ({
+  id: link.id,
+  maxUses: link.max_uses,
+  useCount: link.use_count,
+  expiresAt: link.expires_at,
+  createdBy: link.created_by,
+  createdAt: link.created_at,
+});
+
+const formatGuestLink = (link: GuestLink) => ({
+  id: link.id,
+  label: link.label,
+  maxUses: link.max_uses,
+  useCount: link.use_count,
+  expiresAt: link.expires_at,
+  createdBy: link.created_by,
+  createdAt: link.created_at,
+});
+
+const roomCalendarResponse = async (
+  userRooms: Array<{ id: string; name: string; role: string }>,
+  options: { includeGuestLinks: boolean; host: string; userId: string },
+) => {
+  const recurrences = await getRoomRecurrences(
+    userRooms.map((room) => room.id),
+  );
+  const events: CalendarRoomEvent[] = [];
+  for (const room of userRooms) {
+    const recurrence = recurrences.get(room.id);
+    if (!recurrence) continue;
+    const guestUrl =
+      options.includeGuestLinks && room.role === ROOM_MEMBER_ROLE_ADMIN
+        ? buildRoomJoinUrl(
+            room.id,
+            (
+              await getSharedGuestLink(room.id, options.userId, {
+                label: CALENDAR_GUEST_LINK_LABEL,
+                ttlSeconds: CALENDAR_GUEST_LINK_TTL_SECONDS,
+              })
+            ).token,
+          )
+        : undefined;
+    events.push({
+      roomId: room.id,
+      name: room.name,
+      recurrence,
+      joinUrl: buildRoomJoinUrl(room.id),
+      guestUrl,
+    });
+  }
+  return calendarResponse(
+    buildRoomCalendar(events, { calendarName: "Rooms", host: options.host }),
+  );
+};
+
 export const roomRoutes: Record<string, RouteHandler> = {
   "/api/rooms": async (req: Request) => {
     const token = getBearerToken(req);
@@ -99,21 +254,36 @@ export const roomRoutes: Record<string, RouteHandler> = {
         return errorResponse(error.message, 500);
       }
 
+      const archivedRoomIds = await getArchivedRoomIds(
+        (roomRows || []).map((room) => room.id),
+      );
+      const normalizeListedRoom = (room: any) => {
+        const roomType = room.room_type || "group";
+        return {
+          id: room.id,
+          name: room.name || room.id,
+          isPrivate: Boolean((room as any).is_private),
+          participants: rooms.get(room.id)?.size ?? 0,
+          maxParticipants: room.max_participants ?? null,
+          roomType,
+          avatarUrl: normalizeAvatarUrl(room.avatar_url),
+          ...(roomType === ROOM_TYPE_VOICE_CHANNEL
+            ? { connectedUsers: getConnectedParticipants(room.id) }
+            : {}),
+        };
+      };
       const normalizedRooms = (roomRows || [])
-        .map((room) => {
-          const participants = rooms.get(room.id)?.size ?? 0;
-          if (participants === 0) return null;
-          return {
-            id: room.id,
-            name: room.name || room.id,
-            isPrivate: Boolean((room as any).is_private),
-            participants,
-            maxParticipants: room.max_participants ?? null,
-            roomType: room.room_type || "group",
-            avatarUrl: normalizeAvatarUrl(room.avatar_url),
-          };
-        })
-        .filter(Boolean);
+        .filter(
+          (room) =>
+            (rooms.get(room.id)?.size ?? 0) > 0 &&
+            !archivedRoomIds.has(room.id),
+        )
+        .map(normalizeListedRoom);
+      const listedRoomIds = new Set(normalizedRooms.map((room) => room.id));
+      for (const channel of await listMemberVoiceChannels(userId)) {
+        if (listedRoomIds.has(channel.id)) continue;
+        normalizedRooms.push(normalizeListedRoom(channel));
+      }
 
       return jsonResponse({ rooms: normalizedRooms });
     }
@@ -121,62 +291,130 @@ export const roomRoutes: Record<string, RouteHandler> = {
     if (req.method === "PATCH") {
       try {
         const contentType = req.headers.get("content-type") ?? "";
-        if (!contentType.includes("multipart/form-data")) {
+        const isMultipart = contentType.includes("multipart/form-data");
+        if (!isMultipart && !contentType.includes("application/json")) {
           return errorResponse("Invalid content type", 400);
         }
 
-        const form = await req.formData();
-        const roomIdValue = form.get("roomId");
-        const avatarValue = form.get("avatar");
-        const removeAvatarValue = form.get("removeAvatar");
-
+        const form = isMultipart ? await req.formData() : null;
+        const fields: Record<string, unknown> = form
+          ? Object.fromEntries(
+              Array.from(form.entries()).filter(
+                ([, value]) => typeof value === "string",
+              ),
+            )
+          : (((await req.json()) ?? {}) as Record<string, unknown>);
+        const avatarValue = form?.get("avatar") ?? null;
+
+        const roomIdValue = fields.roomId;
         if (typeof roomIdValue !== "string") {
           return errorResponse("Room id is required", 400);
         }
         const roomId = roomIdValue.trim();
         if (!roomId) return errorResponse("Room id is required", 400);
 
-        const removeAvatar =
-          typeof removeAvatarValue === "string" &&
-          removeAvatarValue.toLowerCase() === "true";
+        const removeAvatar = parseBooleanField(fields.removeAvatar) === true;
         const hasAvatarFile = avatarValue instanceof Blob;
 
-        if (!hasAvatarFile && !removeAvatar) {
+        const maxParticipants = parseMaxParticipants(fields.maxParticipants);
+        if (maxParticipants === false) {
+          return errorResponse("Invalid maxParticipants", 400);
+        }
+        const isPrivate = parseBooleanField(fields.isPrivate);
+        if (isPrivate === null) return errorResponse("Invalid isPrivate", 400);
+        const passwordValue = fields.password;
+        if (
+          passwordValue !== undefined &&
+          (typeof passwordValue !== "string" || !passwordValue.trim())
+        ) {
+          return errorResponse("Invalid password", 400);
+        }
+        const password = passwordValue as string | undefined;
+        const invalidateGuestLinks =
+          parseBooleanField(fields.invalidateGuestLinks) === true;
+        const topic = parseTextField(fields.topic, ROOM_TOPIC_MAX_LENGTH);
+        if (topic === false) return errorResponse("Invalid topic", 400);
+        const description = parseTextField(
+          fields.description,
+          ROOM_DESCRIPTION_MAX_LENGTH,
+        );
+        if (description === false) {
+          return errorResponse("Invalid description", 400);
+        }
+        const hasSettings =
+          maxParticipants !== undefined ||
+          isPrivate !== undefined ||
+          password !== undefined ||
+          invalidateGuestLinks ||
+          topic !== undefined ||
+          description !== undefined;
+
+        if (!hasAvatarFile && !removeAvatar && !hasSettings) {
           return errorResponse("No fields to update", 400);
         }
 
         const { data: room, error: fetchError } = await supabase
           .from("rooms")
-          .select("id, created_by, avatar_url")
+          .select("*")
           .eq("id", roomId)
           .maybeSingle();
         if (fetchError) {
           if (fetchError.code === MISSING_TABLE_ERROR_CODE) {
             return errorResponse("Room not found", 404);
           }
-          if (fetchError.code === MISSING_COLUMN_ERROR_CODE) {
-            return errorResponse("Room avatar unsupported", 400);
-          }
           return errorResponse(fetchError.message, 500);
         }
         if (!room) return errorResponse("Room not found", 404);
-        if (room.created_by !== userId) {
+
+        if ((hasAvatarFile || removeAvatar) && room.created_by !== userId) {
           return errorResponse("Forbidden", 403);
         }
+        if (hasSettings) {
+          const adminCheck = await isRoomAdmin(roomId, userId);
+          if (adminCheck.error) return roomStorageError(adminCheck.error);
+          if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+        }
 
-        let avatarUrl: string | null | undefined = undefined;
-
+        let processedAvatar: { buffer: Buffer; contentType: string } | null =
+          null;
         if (hasAvatarFile) {
           if (!avatarValue.type.startsWith("image/")) {
             return errorResponse("Avatar must be an image", 400);
           }
           const buffer = Buffer.from(await avatarValue.arrayBuffer());
           try {
-            const processed = await processAvatarImage(buffer);
+            processedAvatar = await processAvatarImage(buffer);
+          } catch (error: any) {
+            return errorResponse(
+              error?.message ?? "Avatar processing failed",
+              400,
+            );
+          }
+        }
+
+        let settingsResult = null;
+        if (hasSettings) {
+          settingsResult = await updateRoomSettings(roomId, room, {
+            maxParticipants,
+            isPrivate,
+            password,
+            invalidateGuestLinks,
+            topic,
+            description,
+          });
+          if (!settingsResult.ok) {
+            return errorResponse(settingsResult.error, settingsResult.status);
+          }
+        }
+
+        let avatarUrl: string | null | undefined = undefined;
+
+        if (processedAvatar) {
+          try {
             const uploadResult = await uploadRoomAvatar(
               roomId,
-              processed.buffer,
-              processed.contentType,
+              processedAvatar.buffer,
+              processedAvatar.contentType,
             );
             avatarUrl = uploadResult.url;
 
@@ -189,10 +427,7 @@ export const roomRoutes: Record<string, RouteHandler> = {
               });
             }
           } catch (error: any) {
-            return errorResponse(
-              error?.message ?? "Avatar processing failed",
-              400,
-            );
+            return errorResponse(error?.message ?? "Avatar upload failed", 500);
           }
         } else if (removeAvatar) {
           if (room.avatar_url) {
@@ -218,7 +453,19 @@ export const roomRoutes: Record<string, RouteHandler> = {
 
         return jsonResponse({
           ok: true,
-          avatarUrl: normalizeAvatarUrl(avatarUrl ?? null),
+          avatarUrl: normalizeAvatarUrl(
+            avatarUrl !== undefined ? avatarUrl : (room.avatar_url ?? null),
+          ),
+          maxParticipants: settingsResult
+            ? settingsResult.maxParticipants
+            : (room.max_participants ?? null),
+          isPrivate: settingsResult
+            ? settingsResult.isPrivate
+            : Boolean(room.is_private),
+          topic: settingsResult ? settingsResult.topic : (room.topic ?? null),
+          description: settingsResult
+            ? settingsResult.description
+            : (room.description ?? null),
         });
       } catch {
         return errorResponse("Invalid request body", 400);
@@ -227,7 +474,7 @@ export const roomRoutes: Record<string, RouteHandler> = {
 
     if (req.method === "DELETE") {
       try {
-        const body = (await req.json()) as { id?: string };
+        const body = (await req.json()) as { id?: string; purge?: boolean };
         const roomId = body?.id?.trim();
         if (!roomId) return errorResponse("Room id is required", 400);
 
@@ -240,7 +487,7 @@ export const roomRoutes: Record<string, RouteHandler> = {
         let fetchError: any = null;
         ({ data: room, error: fetchError } = await supabase
           .from("rooms")
-          .select("id, created_by")
+          .select("*")
           .eq("id", roomId)
           .maybeSingle());
         if (fetchError) {
@@ -255,6 +502,38 @@ export const roomRoutes: Record<string, RouteHandler> = {
           return errorResponse("Forbidden", 403);
         }
 
+        if (body.purge !== true) {
+          if (room.archived_at) {
+            return errorResponse("Room already archived", 409);
+          }
+          const archiveResult = await setRoomArchived(roomId, true);
+          if (!archiveResult.ok) {
+            if (!archiveResult.supported) {
+              return errorResponse("Room archive unsupported", 501);
+            }
+            return roomStorageError(archiveResult.error);
+          }
+          return jsonResponse({
+            ok: true,
+            archivedAt: archiveResult.archivedAt,
+            purgeAvailableAt: getPurgeAvailableAt(archiveResult.archivedAt!),
+          });
+        }
+
+        if (!room.archived_at) {
+          return errorResponse("Room must be archived before purge", 409);
+        }
+        const purgeAvailableAt = getPurgeAvailableAt(room.archived_at);
+        if (new Date(purgeAvailableAt).getTime() > Date.now()) {
+          return jsonResponse(
+            {
+              error: "Room retention period has not elapsed",
+              purgeAvailableAt,
+            },
+            409,
+          );
+        }
+
         const { error: participantsError } = await supabase
           .from("room_participants")
           .update({ is_active: false, left_at: nowIso() })
@@ -316,34 +595,223 @@ export const roomRoutes: Record<string, RouteHandler> = {
     return errorResponse("Method not allowed", 405);
   },
 
+  "/api/rooms/restore": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+    if (req.method !== "POST") return errorResponse("Method not allowed", 405);
+
+    let body: { id?: string };
+    try {
+      body = (await req.json()) as { id?: string };
+    } catch {
+      return errorResponse("Invalid request body", 400);
+    }
+    const roomId = typeof body.id === "string" ? body.id.trim() : "";
+    if (!roomId) return errorResponse("Room id is required", 400);
+
+    const { data: room, error: fetchError } = await supabase
+      .from("rooms")
+      .select("*")
+      .eq("id", roomId)
+      .maybeSingle();
+    if (fetchError) return roomStorageError(fetchError);
+    if (!room) return errorResponse("Room not found", 404);
+    if (room.created_by !== userId) return errorResponse("Forbidden", 403);
+    if (!room.archived_at) return errorResponse("Room is not archived", 409);
+
+    const restoreResult = await setRoomArchived(roomId, false);
+    if (!restoreResult.ok) {
+      if (!restoreResult.supported) {
+        return errorResponse("Room archive unsupported", 501);
+      }
+      return roomStorageError(restoreResult.error);
+    }
+    return jsonResponse({ ok: true });
+  },
+
+  "/api/rooms/discover": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+    if (req.method !== "GET") return errorResponse("Method not allowed", 405);
+
+    const url = new URL(req.url);
+    const visibilityParam = url.searchParams.get("visibility");
+    const visibility =
+      visibilityParam === "public" || visibilityParam === "private"
+        ? visibilityParam
+        : undefined;
+    if (visibilityParam && !visibility) {
+      return errorResponse("Invalid visibility", 400);
+    }
+    const roomType = url.searchParams.get("roomType");
+    if (
+      roomType &&
+      roomType !== ROOM_TYPE_GROUP &&
+      roomType !== ROOM_TYPE_VOICE_CHANNEL
+    ) {
+      return errorResponse("Invalid room type", 400);
+    }
+    const sort = url.searchParams.get("sort") ?? "participants";
+    if (sort !== "participants" && sort !== "recent") {
+      return errorResponse("Invalid sort", 400);
+    }
+    const limitParam = url.searchParams.get("limit");
+    const limit = limitParam
+      ? Number.parseInt(limitParam, 10)
+      : DISCOVERY_DEFAULT_LIMIT;
+    if (!Number.isFinite(limit) || limit < 1 || limit > DISCOVERY_MAX_LIMIT) {
+      return errorResponse(
+        `limit must be between 1 and ${DISCOVERY_MAX_LIMIT}`,
+        400,
+      );
+    }
+
+    const result = await discoverRooms({
+      query: url.searchParams.get("q")?.trim() || undefined,
+      visibility,
+      roomType: roomType ?? undefined,
+      hasSpace: url.searchParams.get("hasSpace") === "true",
+      live: url.searchParams.get("live") === "true",
+      sort,
+      cursor: url.searchParams.get("cursor")?.trim() || undefined,
+      limit,
+    });
+    if (!result.ok) return errorResponse(result.error, result.status);
+    return jsonResponse({
+      rooms: result.rooms,
+      nextCursor: result.nextCursor,
+      truncated: result.truncated,
+    });
+  },
+
   "/api/rooms/guest-link": async (req: Request) => {
     const token = getBearerToken(req);
     const userId = token ? await validateToken(token) : null;
     if (!userId) return errorResponse("Unauthorized", 401);
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const roomId = url.searchParams.get("roomId")?.trim() ?? "";
+      if (!roomId) return errorResponse("roomId is required", 400);
+
+      const adminCheck = await isRoomAdmin(roomId, userId);
+      if (adminCheck.error) return roomStorageError(adminCheck.error);
+      if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+
+      const { links, error } = await listGuestLinks(roomId);
+      if (error) return roomStorageError(error);
+      return jsonResponse({ links: links.map(formatGuestLink) });
+    }
+
+    if (req.method === "DELETE") {
+      let body: { roomId?: string; linkId?: string };
+      try {
+        body = (await req.json()) as { roomId?: string; linkId?: string };
+      } catch {
+        return errorResponse("Invalid request body", 400);
+      }
+      const roomId = typeof body.roomId === "string" ? body.roomId.trim() : "";
+      const linkId = typeof body.linkId === "string" ? body.linkId.trim() : "";
+      if (!roomId || !linkId) {
+        return errorResponse("roomId and linkId are required", 400);
+      }
+
+      const adminCheck = await isRoomAdmin(roomId, userId);
+      if (adminCheck.error) return roomStorageError(adminCheck.error);
+      if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+
+      const result = await revokeGuestLink(roomId, linkId);
+      if (!result.ok) return errorResponse(result.error, result.status);
+      return jsonResponse({ ok: true });
+    }
+
     if (req.method !== "POST") return errorResponse("Method not allowed", 405);
 
     try {
       const body = (await req.json()) as {
         roomId?: string;
         ttlSeconds?: number;
+        maxUses?: number | null;
+        label?: string | null;
+        displayName?: string | null;
+        permissions?: Partial<GuestPermissions> | null;
       };
       const roomId = body?.roomId?.trim();
       if (!roomId) return errorResponse("Room id is required", 400);
 
       const room = rooms.get(roomId);
       if (!room || !room.has(userId)) {
-        return errorResponse("Forbidden", 403);
+        const adminCheck = await isRoomAdmin(roomId, userId);
+        if (adminCheck.error) return roomStorageError(adminCheck.error);
+        if (!adminCheck.ok) return errorResponse("Forbidden", 403);
       }
 
-      const guestLinkTtlSeconds = 300;
-      const { token: guestToken, payload } = createGuestToken(roomId, {
-        ttlSeconds: guestLinkTtlSeconds,
-        allowPrivate: true,
-      });
+      if (
+        body.ttlSeconds !== undefined &&
+        (typeof body.ttlSeconds !== "number" ||
+          !Number.isFinite(body.ttlSeconds))
+      ) {
+        return errorResponse("Invalid ttlSeconds", 400);
+      }
+      if (
+        body.maxUses !== undefined &&
+        body.maxUses !== null &&
+        (!Number.isInteger(body.maxUses) ||
+          body.maxUses < 1 ||
+          body.maxUses > GUEST_LINK_MAX_USES_LIMIT)
+      ) {
+        return errorResponse(
+          `maxUses must be between 1 and ${GUEST_LINK_MAX_USES_LIMIT}`,
+          400,
+        );
+      }
+      if (
+        body.label !== undefined &&
+        body.label !== null &&
+        typeof body.label !== "string"
+      ) {
+        return errorResponse("Invalid label", 400);
+      }
+      const label = body.label?.trim() || null;
+      if (label && label.length > GUEST_LINK_LABEL_MAX_LENGTH) {
+        return errorResponse("Label is too long", 400);
+      }
+      if (
+        body.displayName !== undefined &&
+        body.displayName !== null &&
+        typeof body.displayName !== "string"
+      ) {
+        return errorResponse("Invalid displayName", 400);
+      }
+      if (
+        body.permissions !== undefined &&
+        body.permissions !== null &&
+        (typeof body.permissions !== "object" ||
+          Object.values(body.permissions).some(
+            (value) => typeof value !== "boolean",
+          ))
+      ) {
+        return errorResponse("Invalid permissions", 400);
+      }
+
+      const { token: guestToken, link } = await createGuestLink(
+        roomId,
+        userId,
+        {
+          ttlSeconds: body.ttlSeconds,
+          maxUses: body.maxUses ?? null,
+          label,
+          displayName: body.displayName,
+          permissions: body.permissions,
+        },
+      );
 
       return jsonResponse({
         token: guestToken,
-        expiresAt: new Date(payload.exp * 1000).toISOString(),
+        expiresAt: link.expires_at,
+        link: formatGuestLink(link),
       });
     } catch {
       return errorResponse("Invalid request body", 400);
@@ -354,12 +822,58 @@ export const roomRoutes: Record<string, RouteHandler> = {
     const token = getBearerToken(req);
     const userId = token ? await validateToken(token) : null;
     if (!userId) return errorResponse("Unauthorized", 401);
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const roomId = url.searchParams.get("roomId")?.trim() ?? "";
+      if (!roomId) return errorResponse("roomId is required", 400);
+
+      const adminCheck = await isRoomAdmin(roomId, userId);
+      if (adminCheck.error) return roomStorageError(adminCheck.error);
+      if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+
+      const { links, error } = await listRoomInviteLinks(roomId);
+      if (error) return roomStorageError(error);
+      return jsonResponse({
+        links: links.map((link) => ({
+          ...formatRoomInviteLink(link),
+          uses: link.uses.map((use) => ({
+            userId: use.user_id,
+            acceptedAt: use.accepted_at,
+          })),
+        })),
+      });
+    }
+
+    if (req.method === "DELETE") {
+      let body: { roomId?: string; linkId?: string };
+      try {
+        body = (await req.json()) as { roomId?: string; linkId?: string };
+      } catch {
+        return errorResponse("Invalid request body", 400);
+      }
+      const roomId = typeof body.roomId === "string" ? body.roomId.trim() : "";
+      const linkId = typeof body.linkId === "string" ? body.linkId.trim() : "";
+      if (!roomId || !linkId) {
+        return errorResponse("roomId and linkId are required", 400);
+      }
+
+      const adminCheck = await isRoomAdmin(roomId, userId);
+      if (adminCheck.error) return roomStorageError(adminCheck.error);
+      if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+
+      const result = await revokeRoomInviteLink(roomId, linkId);
+      if (!result.ok) return errorResponse(result.error, result.status);
+      return jsonResponse({ ok: true });
+    }
+
     if (req.method !== "POST") return errorResponse("Method not allowed", 405);
 
     try {
       const body = (await req.json()) as {
         roomId?: string;
         ttlSeconds?: number;
+        maxUses?: number | null;
       };
       const roomId = body?.roomId?.trim();
       if (!roomId) return errorResponse("Room id is required", 400);
@@ -373,13 +887,29 @@ export const roomRoutes: Record<string, RouteHandler> = {
         return errorResponse("Room membership unsupported", 501);
       if (membershipProbe.error) return roomStorageError(membershipProbe.error);
 
-      const { token: inviteToken, payload } = createRoomInviteToken(roomId, {
-        ttlSeconds: body?.ttlSeconds,
-      });
+      if (
+        body.maxUses !== undefined &&
+        body.maxUses !== null &&
+        (!Number.isInteger(body.maxUses) ||
+          body.maxUses < 1 ||
+          body.maxUses > INVITE_LINK_MAX_USES_LIMIT)
+      ) {
+        return errorResponse(
+          `maxUses must be between 1 and ${INVITE_LINK_MAX_USES_LIMIT}`,
+          400,
+        );
+      }
+
+      const { token: inviteToken, link } = await createRoomInviteLink(
+        roomId,
+        userId,
+        { ttlSeconds: body?.ttlSeconds, maxUses: body.maxUses ?? null },
+      );
 
       return jsonResponse({
         token: inviteToken,
-        expiresAt: new Date(payload.exp * 1000).toISOString(),
+        expiresAt: link.expires_at,
+        link: formatRoomInviteLink(link),
       });
     } catch {
       return errorResponse("Invalid request body", 400);
@@ -424,17 +954,33 @@ export const roomRoutes: Record<string, RouteHandler> = {
       }
       if (!room) return errorResponse("Room not found", 404);
 
-      const addResult = await addRoomMember(
-        room.id,
-        userId,
-        ROOM_MEMBER_ROLE_MEMBER,
-        null,
-      );
-      if (!addResult.ok) {
-        if (!addResult.supported) {
-          return errorResponse("Room membership unsupported", 501);
+      const membership = await getRoomMemberRole(room.id, userId);
+      if (!membership.supported) {
+        return errorResponse("Room membership unsupported", 501);
+      }
+      if (membership.error) return roomStorageError(membership.error);
+      if (!membership.role) {
+        const claim = await claimRoomInviteLink(payload.tokenId, room.id);
+        if (!claim.ok) return errorResponse(claim.error, claim.status);
+
+        const addResult = await addRoomMember(
+          room.id,
+          userId,
+          ROOM_MEMBER_ROLE_MEMBER,
+          null,
+        );
+        if (!addResult.ok) {
+          if (!addResult.supported) {
+            return errorResponse("Room membership unsupported", 501);
+          }
+          return roomStorageError(addResult.error);
         }
-        return roomStorageError(addResult.error);
+        await recordRoomInviteLinkUse({
+          link_id: payload.tokenId,
+          room_id: room.id,
+          user_id: userId,
+          accepted_at: nowIso(),
+        });
       }
 
       return jsonResponse({
@@ -731,7 +1277,9 @@ export const roomRoutes: Record<string, RouteHandler> = {
       const action = typeof body.action === "string" ? body.action.trim() : "";
       if (!roomId) return errorResponse("roomId is required", 400);
       if (!targetId) return errorResponse("userId is required", 400);
-      if (!["promote", "demote", "remove", "leave"].includes(action))
+      if (
+        !["promote", "demote", "remove", "leave", "transfer"].includes(action)
+      )
         return errorResponse("Invalid action", 400);
 
       const { data: room, error: roomError } = await supabase
@@ -771,20 +1319,59 @@ export const roomRoutes: Record<string, RouteHandler> = {
           );
         }
 
-        const activeRoom = rooms.get(roomId);
-        if (activeRoom?.has(targetId)) {
-          activeRoom.delete(targetId);
-          if (activeRoom.size === 0) {
-            rooms.delete(roomId);
-          }
-          broadcastToRoom(
+        await evictFromRoom(roomId, targetId);
+
+        return jsonResponse({ ok: true });
+      }
+
+      if (action === "transfer") {
+        if (room.created_by !== userId) return errorResponse("Forbidden", 403);
+        if (targetId === userId) {
+          return errorResponse("Cannot transfer ownership to yourself", 400);
+        }
+
+        const targetRole = await getRoomMemberRole(roomId, targetId);
+        if (!targetRole.supported)
+          return errorResponse("Room membership unsupported", 501);
+        if (targetRole.error) return roomStorageError(targetRole.error);
+        if (targetRole.role !== ROOM_MEMBER_ROLE_ADMIN) {
+          return errorResponse("New owner must be a room admin", 409);
+        }
+
+        const { data: transferredRooms, error: transferError } = await supabase
+          .from("rooms")
+          .update({ created_by: targetId, updated_at: nowIso() })
+          .eq("id", roomId)
+          .eq("created_by", userId)
+          .select("id");
+        if (transferError) return roomStorageError(transferError);
+        if (!transferredRooms || transferredRooms.length === 0) {
+          return errorResponse("Room owner changed", 409);
+        }
+
+        await setRoomMemberRole(roomId, targetId, ROOM_MEMBER_ROLE_ADMIN);
+        await ensureRoomMember(
+          roomId,
+          userId,
+          ROOM_MEMBER_ROLE_ADMIN,
+          targetId,
+        );
+
+        const recipients = new Set([
+          ...(await listRoomMemberIds(roomId)),
+          ...(rooms.get(roomId)?.keys() ?? []),
+          userId,
+        ]);
+        for (const recipientId of recipients) {
+          sendToUser(recipientId, {
+            type: "room-owner-changed",
             roomId,
-            { type: "room-user-left", roomId, userId: targetId },
-            targetId,
-          );
+            ownerId: targetId,
+            previousOwnerId: userId,
+          });
         }
 
-        return jsonResponse({ ok: true });
+        return jsonResponse({ ok: true, ownerId: targetId });
       }
 
       const adminCheck = await isRoomAdmin(roomId, userId);
@@ -823,17 +1410,7 @@ export const roomRoutes: Record<string, RouteHandler> = {
           );
         }
 
-        const activeRoom = rooms.get(roomId);
-        if (activeRoom?.has(targetId)) {
-          activeRoom.delete(targetId);
-          if (activeRoom.size === 0) {
-            rooms.delete(roomId);
-          }
-          broadcastToRoom(
-            roomId,
-            { type: "room-user-left", roomId, userId: targetId },
-            targetId,
-          );
+        if (await evictFromRoom(roomId, targetId)) {
           sendToUser(targetId, { type: "room-kicked", roomId });
         }
 
@@ -855,6 +1432,265 @@ export const roomRoutes: Record<string, RouteHandler> = {
     return errorResponse("Method not allowed", 405);
   },
 
+  "/api/rooms/lobby": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const roomId = url.searchParams.get("roomId")?.trim() ?? "";
+      if (!roomId) return errorResponse("roomId is required", 400);
+
+      const adminCheck = await isRoomAdmin(roomId, userId);
+      if (adminCheck.error) return roomStorageError(adminCheck.error);
+      if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+
+      return jsonResponse({ requests: listLobby(roomId) });
+    }
+
+    if (req.method === "POST") {
+      let body: { roomId?: string; userId?: string; action?: string };
+      try {
+        body = (await req.json()) as typeof body;
+      } catch {
+        return errorResponse("Invalid request body", 400);
+      }
+
+      const roomId = typeof body.roomId === "string" ? body.roomId.trim() : "";
+      const targetId =
+        typeof body.userId === "string" ? body.userId.trim() : "";
+      const action = typeof body.action === "string" ? body.action.trim() : "";
+      if (!roomId) return errorResponse("roomId is required", 400);
+      if (!targetId) return errorResponse("userId is required", 400);
+      if (action !== "admit" && action !== "deny")
+        return errorResponse("Invalid action", 400);
+
+      const result = await resolveLobbyRequest(userId, roomId, targetId, action);
+      if (!result.ok) return errorResponse(result.error, result.status);
+      return jsonResponse({ ok: true });
+    }
+
+    if (req.method === "PATCH") {
+      let body: { roomId?: string; enabled?: boolean };
+      try {
+        body = (await req.json()) as typeof body;
+      } catch {
+        return errorResponse("Invalid request body", 400);
+      }
+
+      const roomId = typeof body.roomId === "string" ? body.roomId.trim() : "";
+      if (!roomId) return errorResponse("roomId is required", 400);
+      if (typeof body.enabled !== "boolean")
+        return errorResponse("enabled is required", 400);
+
+      const adminCheck = await isRoomAdmin(roomId, userId);
+      if (adminCheck.error) return roomStorageError(adminCheck.error);
+      if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+
+      const { error: updateError } = await supabase
+        .from("rooms")
+        .update({ lobby_enabled: body.enabled, updated_at: nowIso() })
+        .eq("id", roomId);
+      if (updateError) {
+        if (updateError.code === MISSING_COLUMN_ERROR_CODE) {
+          return errorResponse("Room lobby unsupported", 501);
+        }
+        return roomStorageError(updateError);
+      }
+
+      if (!body.enabled) {
+        for (const request of listLobby(roomId)) {
+          await resolveLobbyRequest(userId, roomId, request.userId, "admit");
+        }
+      }
+
+      return jsonResponse({ ok: true, lobbyEnabled: body.enabled });
+    }
+
+    return errorResponse("Method not allowed", 405);
+  },
+
+  "/api/rooms/recurrence": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+    if (req.method !== "PUT" && req.method !== "DELETE") {
+      return errorResponse("Method not allowed", 405);
+    }
+
+    let body: {
+      roomId?: string;
+      rule?: string;
+      startsAt?: string;
+      durationMinutes?: number;
+    };
+    try {
+      body = (await req.json()) as typeof body;
+    } catch {
+      return errorResponse("Invalid request body", 400);
+    }
+
+    const roomId = typeof body.roomId === "string" ? body.roomId.trim() : "";
+    if (!roomId) return errorResponse("roomId is required", 400);
+
+    let recurrence = null;
+    if (req.method === "PUT") {
+      const rule =
+        typeof body.rule === "string"
+          ? normalizeRecurrenceRule(body.rule)
+          : null;
+      const startsAt =
+        typeof body.startsAt === "string" ? parseDate(body.startsAt) : null;
+      const durationMinutes = Number(body.durationMinutes ?? 60);
+      if (!rule) return errorResponse("Invalid recurrence rule", 400);
+      if (!startsAt) return errorResponse("startsAt is required", 400);
+      if (
+        !Number.isInteger(durationMinutes) ||
+        durationMinutes <= 0 ||
+        durationMinutes > ROOM_RECURRENCE_MAX_DURATION_MINUTES
+      ) {
+        return errorResponse("Invalid durationMinutes", 400);
+      }
+      recurrence = { rule, startsAt, durationMinutes };
+    }
+
+    const adminCheck = await isRoomAdmin(roomId, userId);
+    if (adminCheck.error) return roomStorageError(adminCheck.error);
+    if (!adminCheck.ok) return errorResponse("Forbidden", 403);
+
+    const result = await setRoomRecurrence(roomId, recurrence);
+    if (!result.ok) {
+      if (!result.supported) {
+        return errorResponse("Room recurrence unsupported", 501);
+      }
+      return roomStorageError(result.error);
+    }
+    return jsonResponse({ ok: true, recurrence });
+  },
+
+  "/api/rooms/moderation": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+    if (req.method !== "POST") return errorResponse("Method not allowed", 405);
+
+    let body: {
+      roomId?: string;
+      userId?: string;
+      action?: string;
+      audio?: boolean;
+      video?: boolean;
+      scope?: string;
+    };
+    try {
+      body = (await req.json()) as typeof body;
+    } catch {
+      return errorResponse("Invalid request body", 400);
+    }
+
+    const result = await moderateRoom(userId, body);
+    if (!result.ok) return errorResponse(result.error, result.status);
+    return jsonResponse({
+      ok: true,
+      revokedGuestLinkId:
+        "revokedGuestLinkId" in result ? result.revokedGuestLinkId : null,
+    });
+  },
+
+  "/api/rooms/detail": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+    if (req.method !== "GET") return errorResponse("Method not allowed", 405);
+
+    const url = new URL(req.url);
+    const roomId = url.searchParams.get("roomId")?.trim() ?? "";
+    if (!roomId) return errorResponse("roomId is required", 400);
+
+    const access = await canAccessRoomChat(userId, roomId);
+    if (!access.ok)
+      return errorResponse(
+        access.error ?? "Forbidden",
+        access.error === "Room not found" ? 404 : 403,
+      );
+
+    const { data: room, error } = await supabase
+      .from("rooms")
+      .select("*")
+      .eq("id", roomId)
+      .maybeSingle();
+    if (error) return roomStorageError(error);
+    if (!room) return errorResponse("Room not found", 404);
+
+    return jsonResponse({
+      room: {
+        id: room.id,
+        name: room.name || room.id,
+        isPrivate: Boolean(room.is_private),
+        isActive: Boolean(room.is_active),
+        isArchived: Boolean(room.archived_at),
+        participants: rooms.get(room.id)?.size ?? 0,
+        maxParticipants: room.max_participants ?? null,
+        roomType: room.room_type || "group",
+        avatarUrl: normalizeAvatarUrl(room.avatar_url),
+        topic: room.topic ?? null,
+        description: room.description ?? null,
+        createdBy: room.created_by ?? null,
+      },
+      pins: await getRoomPins(roomId),
+    });
+  },
+
+  "/api/rooms/pins": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const roomId = url.searchParams.get("roomId")?.trim() ?? "";
+      if (!roomId) return errorResponse("roomId is required", 400);
+
+      const access = await canAccessRoomChat(userId, roomId);
+      if (!access.ok)
+        return errorResponse(
+          access.error ?? "Forbidden",
+          access.error === "Room not found" ? 404 : 403,
+        );
+
+      return jsonResponse({ pins: await getRoomPins(roomId) });
+    }
+
+    if (req.method === "POST" || req.method === "DELETE") {
+      let body: { roomId?: string; messageId?: string };
+      try {
+        body = (await req.json()) as typeof body;
+      } catch {
+        return errorResponse("Invalid request body", 400);
+      }
+
+      const roomId = typeof body.roomId === "string" ? body.roomId.trim() : "";
+      const messageId =
+        typeof body.messageId === "string" ? body.messageId.trim() : "";
+      if (!roomId) return errorResponse("roomId is required", 400);
+      if (!messageId) return errorResponse("messageId is required", 400);
+
+      const result = await setRoomMessagePinned(
+        userId,
+        roomId,
+        messageId,
+        req.method === "POST",
+      );
+      if (!result.ok) return errorResponse(result.error, result.status);
+      return "pin" in result
+        ? jsonResponse({ pin: result.pin }, 201)
+        : jsonResponse({ ok: true });
+    }
+
+    return errorResponse("Method not allowed", 405);
+  },
+
   "/api/rooms/messages": async (req: Request) => {
     const token = getBearerToken(req);
     const userId = token ? await validateToken(token) : null;
@@ -897,6 +1733,9 @@ export const roomRoutes: Record<string, RouteHandler> = {
           access.error ?? "Forbidden",
           access.error === "Room not found" ? 404 : 403,
         );
+      if (await isRoomArchived(roomId)) {
+        return errorResponse("Room archived", 409);
+      }
 
       const messagePayload = {
         id: crypto.randomUUID(),
@@ -916,13 +1755,78 @@ export const roomRoutes: Record<string, RouteHandler> = {
       return jsonResponse({ message: messagePayload }, 201);
     }
 
+    if (req.method === "PATCH" || req.method === "DELETE") {
+      let roomId = "";
+      let messageId = "";
+      let messageBody = "";
+      if (req.method === "PATCH") {
+        let body: { roomId?: string; id?: string; body?: string };
+        try {
+          body = (await req.json()) as {
+            roomId?: string;
+            id?: string;
+            body?: string;
+          };
+        } catch {
+          return errorResponse("Invalid request body", 400);
+        }
+        roomId = typeof body.roomId === "string" ? body.roomId.trim() : "";
+        messageId = typeof body.id === "string" ? body.id.trim() : "";
+        messageBody = typeof body.body === "string" ? body.body.trim() : "";
+        if (!messageBody) return errorResponse("Message body is required", 400);
+        if (messageBody.length > ROOM_MESSAGE_MAX_LENGTH)
+          return errorResponse("Message is too long", 400);
+      } else {
+        const url = new URL(req.url);
+        roomId = url.searchParams.get("roomId")?.trim() ?? "";
+        messageId = url.searchParams.get("id")?.trim() ?? "";
+      }
+      if (!roomId) return errorResponse("roomId is required", 400);
+      if (!messageId) return errorResponse("id is required", 400);
+
+      const access = await canAccessRoomChat(userId, roomId);
+      if (!access.ok)
+        return errorResponse(
+          access.error ?? "Forbidden",
+          access.error === "Room not found" ? 404 : 403,
+        );
+
+      const result = await changeRoomMessage(
+        userId,
+        roomId,
+        messageId,
+        req.method === "PATCH" ? { body: messageBody } : { delete: true },
+      );
+      if (!result.ok) return errorResponse(result.error, result.status);
+      broadcastToRoomChat(roomId, {
+        type:
+          req.method === "PATCH"
+            ? "room-message-updated"
+            : "room-message-deleted",
+        roomId,
+        message: result.message,
+      });
+      return jsonResponse({ message: result.message });
+    }
+
     return errorResponse("Method not allowed", 405);
   },
 
   "/api/rooms/mine": async (req: Request) => {
-    const token = getBearerToken(req);
-    const userId = token ? await validateToken(token) : null;
+    const url = new URL(req.url);
+    const feedToken = url.searchParams.get("feed")?.trim() ?? "";
+    const token = feedToken ? null : getBearerToken(req);
+    const userId = feedToken
+      ? await resolveCalendarFeedUser(feedToken)
+      : token
+        ? await validateToken(token)
+        : null;
     if (!userId) return errorResponse("Unauthorized", 401);
+    const calendarOptions = {
+      includeGuestLinks: url.searchParams.get("guestLinks") === "true",
+      host: url.hostname,
+      userId,
+    };
 
     if (req.method === "GET") {
       let membershipRows: any[] | null = null;
@@ -983,6 +1887,7 @@ export const roomRoutes: Record<string, RouteHandler> = {
 
       if (createdError) {
         if (createdError.code === MISSING_TABLE_ERROR_CODE) {
+          if (feedToken) return roomCalendarResponse([], calendarOptions);
           return jsonResponse({ rooms: [] });
         }
         return errorResponse(createdError.message, 500);
@@ -1016,7 +1921,16 @@ export const roomRoutes: Record<string, RouteHandler> = {
         return bTime - aTime;
       });
 
-      const normalizedRooms = orderedRooms.map((room) => {
+      const includeArchived =
+        !feedToken && url.searchParams.get("includeArchived") === "true";
+      const archivedRoomIds = await getArchivedRoomIds(
+        orderedRooms.map((room) => room.id),
+      );
+      const visibleRooms = includeArchived
+        ? orderedRooms
+        : orderedRooms.filter((room) => !archivedRoomIds.has(room.id));
+
+      const normalizedRooms = visibleRooms.map((room) => {
         const role = membershipMap.get(room.id);
         const isCreator = room.created_by === userId;
         return {
@@ -1032,12 +1946,35 @@ export const roomRoutes: Record<string, RouteHandler> = {
             role ||
             (isCreator ? ROOM_MEMBER_ROLE_ADMIN : ROOM_MEMBER_ROLE_MEMBER),
           isCreator,
+          isArchived: archivedRoomIds.has(room.id),
+          ...(room.room_type === ROOM_TYPE_VOICE_CHANNEL
+            ? { connectedUsers: getConnectedParticipants(room.id) }
+            : {}),
         };
       });
 
+      if (feedToken) {
+        return roomCalendarResponse(normalizedRooms, calendarOptions);
+      }
       return jsonResponse({ rooms: normalizedRooms });
     }
 
     return errorResponse("Method not allowed", 405);
   },
+
+  "/api/rooms/calendar-feed": async (req: Request) => {
+    const token = getBearerToken(req);
+    const userId = token ? await validateToken(token) : null;
+    if (!userId) return errorResponse("Unauthorized", 401);
+    if (req.method !== "GET" && req.method !== "POST") {
+      return errorResponse("Method not allowed", 405);
+    }
+
+    const feedToken = await getCalendarFeedToken(userId, {
+      rotate: req.method === "POST",
+    });
+    const feedUrl = new URL("/api/rooms/mine", req.url);
+    feedUrl.searchParams.set("feed", feedToken);
+    return jsonResponse({ token: feedToken, url: feedUrl.toString() });
+  },
 };
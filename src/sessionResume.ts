@@ -0,0 +1,177 @@
+import { randomBytes } from "node:crypto";
+import { resumeSessions, type ResumeSession } from "./state";
+
+const DEFAULT_EVENT_BUFFER_SIZE = 200;
+const DEFAULT_RESUME_TTL_MS = 10 * 60_000;
+
+const REPLAYABLE_EVENT_TYPES = new Set([
+  "chat-message",
+  "room-message",
+  "room-message-updated",
+  "room-message-deleted",
+  "user-status",
+  "room-user-joined",
+  "room-user-left",
+]);
+
+const resolvePositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? String(fallback), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const EVENT_BUFFER_SIZE = resolvePositiveInt(
+  process.env.WS_EVENT_BUFFER_SIZE,
+  DEFAULT_EVENT_BUFFER_SIZE,
+);
+const RESUME_TTL_MS = resolvePositiveInt(
+  process.env.WS_RESUME_TTL_MS,
+  DEFAULT_RESUME_TTL_MS,
+);
+
+const isExpired = (session: ResumeSession, now = Date.now()) =>
+  session.expiresAt !== undefined && session.expiresAt <= now;
+
+const createResumeSession = (userId: string): ResumeSession => {
+  const session: ResumeSession = {
+    token: randomBytes(24).toString("base64url"),
+    seq: 0,
+    events: [],
+  };
+  resumeSessions.set(userId, session);
+  return session;
+};
+
+export const recordUserEvent = (
+  userId: string,
+  message: Record<string, any>,
+) => {
+  if (!REPLAYABLE_EVENT_TYPES.has(message.type)) return message;
+  const session = resumeSessions.get(userId);
+  if (!session) return message;
+  if (isExpired(session)) {
+    resumeSessions.delete(userId);
+    return message;
+  }
+  session.seq += 1;
+  const event = { ...message, seq: session.seq };
+  session.events.push({ seq: session.seq, event });
+  if (session.events.length > EVENT_BUFFER_SIZE) {
+    session.events.splice(0, session.events.length - EVENT_BUFFER_SIZE);
+  }
+  return event;
+};
+
+export const recordEventForIdleUsers = (
+  message: Record<string, any>,
+  isConnected: (userId: string) => boolean,
+  excludeUserId?: string,
+) => {
+  if (!REPLAYABLE_EVENT_TYPES.has(message.type)) return;
+  for (const [userId, session] of resumeSessions) {
+    if (userId === excludeUserId || session.expiresAt === undefined) continue;
+    if (isConnected(userId)) continue;
+    recordUserEvent(userId, message);
+  }
+};
+
+export const recordRoomChatEventForIdleUsers = (
+  roomId: string,
+  message: Record<string, any>,
+  isConnected: (userId: string) => boolean,
+  excludeUserId?: string,
+) => {
+  if (!REPLAYABLE_EVENT_TYPES.has(message.type)) return;
+  for (const [userId, session] of resumeSessions) {
+    if (userId === excludeUserId || session.expiresAt === undefined) continue;
+    if (!session.chatRooms?.has(roomId) || isConnected(userId)) continue;
+    recordUserEvent(userId, message);
+  }
+};
+
+export const retainResumeChatRooms = (
+  userId: string,
+  roomIds: Iterable<string>,
+) => {
+  const session = resumeSessions.get(userId);
+  if (!session || session.expiresAt === undefined) return;
+  session.chatRooms = new Set([...(session.chatRooms ?? []), ...roomIds]);
+};
+
+export const hasResumeSession = (userId: string, token?: string) => {
+  const session = resumeSessions.get(userId);
+  return Boolean(token && session?.token === token && !isExpired(session));
+};
+
+export const openResumeSession = (
+  userId: string,
+  token?: string,
+  since?: number,
+) => {
+  let session = resumeSessions.get(userId);
+  if (session && isExpired(session)) {
+    resumeSessions.delete(userId);
+    session = undefined;
+  }
+
+  const canResume =
+    Boolean(token) &&
+    session?.token === token &&
+    Number.isFinite(since) &&
+    Number(since) >= 0;
+  if (!session) session = createResumeSession(userId);
+  session.expiresAt = undefined;
+  const chatRooms = canResume ? Array.from(session.chatRooms ?? []) : [];
+  session.chatRooms = undefined;
+
+  if (!canResume) {
+    return {
+      token: session.token,
+      seq: session.seq,
+      events: [],
+      resync: Boolean(token),
+      chatRooms,
+    };
+  }
+
+  const lastSeen = Number(since);
+  if (lastSeen >= session.seq) {
+    return {
+      token: session.token,
+      seq: session.seq,
+      events: [],
+      resync: false,
+      chatRooms,
+    };
+  }
+  const oldestSeq = session.events[0]?.seq;
+  if (oldestSeq === undefined || lastSeen + 1 < oldestSeq) {
+    return {
+      token: session.token,
+      seq: session.seq,
+      events: [],
+      resync: true,
+      chatRooms,
+    };
+  }
+  return {
+    token: session.token,
+    seq: session.seq,
+    events: session.events
+      .filter((entry) => entry.seq > lastSeen)
+      .map((entry) => entry.event),
+    resync: false,
+    chatRooms,
+  };
+};
+
+export const suspendResumeSession = (userId: string) => {
+  const session = resumeSessions.get(userId);
+  if (session) session.expiresAt = Date.now() + RESUME_TTL_MS;
+};
+
+export const pruneResumeSessions = () => {
+  const now = Date.now();
+  for (const [userId, session] of resumeSessions) {
+    if (isExpired(session, now)) resumeSessions.delete(userId);
+  }
+};
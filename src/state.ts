@@ -1,10 +1,61 @@
 import type { ServerWebSocket } from "bun";
-import type { CallDirection, CallHistoryStatus, CallKind, WSData } from "./types";
+import type {
+  CallDirection,
+  CallHistoryStatus,
+  CallKind,
+  CallSession,
+  JoinRoomOptions,
+  RoomParticipant,
+  WSData,
+} from "./types";
 
 export const users = new Map<string, Set<ServerWebSocket<WSData>>>();
-export const rooms = new Map<string, Set<string>>();
+export const rooms = new Map<string, Map<string, RoomParticipant>>();
 export const roomChats = new Map<string, Set<string>>();
+export const voiceChannelWatchers = new Map<
+  string,
+  Set<ServerWebSocket<WSData>>
+>();
+export const roomBansByRoom = new Map<string, Set<string>>();
+
+export interface RaisedHand {
+  userId: string;
+  raisedAt: string;
+}
+
+export const roomHandQueues = new Map<string, RaisedHand[]>();
+
+export interface LobbyEntry {
+  ws: ServerWebSocket<WSData>;
+  userId: string;
+  isGuest: boolean;
+  requestedAt: string;
+  options?: JoinRoomOptions;
+}
+
+export const roomLobbies = new Map<string, Map<string, LobbyEntry>>();
 export const activeCalls = new Map<string, string>();
+export const callSessions = new Map<string, CallSession>();
+
+export interface PendingDisconnect {
+  timer?: ReturnType<typeof setTimeout>;
+  isGuest: boolean;
+  roomId?: string;
+  chatRooms: Set<string>;
+  callIds: Set<string>;
+}
+
+export const pendingDisconnects = new Map<string, PendingDisconnect>();
+
+export interface ResumeSession {
+  token: string;
+  seq: number;
+  events: Array<{ seq: number; event: Record<string, any> }>;
+  expiresAt?: number;
+  chatRooms?: Set<string>;
+}
+
+export const resumeSessions = new Map<string, ResumeSession>();
 
 export interface InMemoryCallLog {
   id: string;
@@ -20,6 +71,14 @@ export interface InMemoryCallLog {
 
 export const callHistoryByUser = new Map<string, InMemoryCallLog[]>();
 
+export interface RoomCallLog {
+  id: string;
+  startedAt: number;
+  callType: CallKind;
+}
+
+export const roomCallLogs = new Map<string, Map<string, RoomCallLog>>();
+
 export interface InMemoryDirectMessage {
   id: string;
   sender_id: string;
@@ -38,6 +97,118 @@ export interface InMemoryRoomMessage {
   sender_id: string;
   body: string;
   created_at: string;
+  edited_at?: string | null;
+  deleted_at?: string | null;
 }
 
 export const roomMessagesByRoom = new Map<string, InMemoryRoomMessage[]>();
+
+export interface InMemoryMeeting {
+  id: string;
+  room_id: string;
+  title: string;
+  starts_at: string;
+  duration_minutes: number;
+  invitee_ids: string[];
+  created_by: string;
+  created_at: string;
+  reminded_at: string | null;
+}
+
+export const meetingsById = new Map<string, InMemoryMeeting>();
+
+export const calendarFeedTokensByUser = new Map<string, string>();
+
+export interface CallQualityMetric {
+  count: number;
+  total: number;
+  min: number;
+  max: number;
+}
+
+export interface CallQualityAggregate {
+  samples: number;
+  rtt: CallQualityMetric;
+  jitter: CallQualityMetric;
+  packetLoss: CallQualityMetric;
+  bitrate: CallQualityMetric;
+  candidateTypes: Set<string>;
+  firstSampleAt: number;
+  lastSampleAt: number;
+}
+
+export const callQualityByCall = new Map<
+  string,
+  Map<string, CallQualityAggregate>
+>();
+
+export interface InMemoryCallQualityReport {
+  call_id: string;
+  user_id: string;
+  samples: number;
+  avg_rtt_ms: number | null;
+  max_rtt_ms: number | null;
+  avg_jitter_ms: number | null;
+  max_jitter_ms: number | null;
+  avg_packet_loss_percent: number | null;
+  max_packet_loss_percent: number | null;
+  avg_bitrate_kbps: number | null;
+  min_bitrate_kbps: number | null;
+  candidate_types: string[];
+  first_sample_at: string;
+  last_sample_at: string;
+}
+
+export const callQualityReportsByCall = new Map<
+  string,
+  InMemoryCallQualityReport[]
+>();
+
+export const guestLinksValidAfterByRoom = new Map<string, number>();
+
+export interface InMemoryRoomPin {
+  room_id: string;
+  message_id: string;
+  pinned_by: string;
+  pinned_at: string;
+}
+
+export const roomPinsByRoom = new Map<string, InMemoryRoomPin[]>();
+
+export interface InMemoryGuestLink {
+  id: string;
+  room_id: string;
+  created_by: string;
+  label: string | null;
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export const guestLinksById = new Map<string, InMemoryGuestLink>();
+
+export interface InMemoryRoomInviteLink {
+  id: string;
+  room_id: string;
+  created_by: string;
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface InMemoryRoomInviteLinkUse {
+  link_id: string;
+  room_id: string;
+  user_id: string;
+  accepted_at: string;
+}
+
+export const roomInviteLinksById = new Map<string, InMemoryRoomInviteLink>();
+export const roomInviteLinkUsesByLink = new Map<
+  string,
+  InMemoryRoomInviteLinkUse[]
+>();
@@ -1,3 +1,5 @@
+import type { ServerWebSocket } from "bun";
+
 export interface WSData {
   userId: string;
   roomId?: string;
@@ -5,7 +7,50 @@ export interface WSData {
   isGuest?: boolean;
   guestRoomId?: string;
   guestAllowPrivate?: boolean;
+  guestDisplayName?: string;
+  guestPermissions?: GuestPermissions;
+  guestLinkId?: string;
   chatRooms?: Set<string>;
+  resumeToken?: string;
+  resumeSince?: number;
+  lobbyRoomId?: string;
+  watchedChannels?: Set<string>;
+}
+
+export interface JoinRoomOptions {
+  createIfMissing?: boolean;
+  name?: string;
+  isPrivate?: boolean;
+  password?: string;
+  roomType?: string;
+  callType?: string;
+  lobbyAdmitted?: boolean;
+  actor?: {
+    isGuest?: boolean;
+    allowPrivateBypass?: boolean;
+    displayName?: string;
+    permissions?: GuestPermissions;
+  };
+}
+
+export interface GuestPermissions {
+  chat: boolean;
+  video: boolean;
+  screenShare: boolean;
+}
+
+export interface RoomMediaState {
+  audioMuted: boolean;
+  videoMuted: boolean;
+  screenSharing: boolean;
+}
+
+export interface RoomParticipant extends RoomMediaState {
+  userId: string;
+  joinedAt: string;
+  isGuest?: boolean;
+  displayName?: string;
+  permissions?: GuestPermissions;
 }
 
 export interface RegisterRequest {
@@ -74,6 +119,27 @@ export type CallHistoryStatus =
   | "rejected"
   | "failed";
 export type CallKind = "audio" | "video";
+export type CallState =
+  | "ringing"
+  | "connecting"
+  | "active"
+  | "held"
+  | "ended";
+
+export interface CallSession {
+  id: string;
+  callerId: string;
+  calleeId: string;
+  callType: CallKind;
+  state: CallState;
+  createdAt: number;
+  answeredAt?: number;
+  endedAt?: number;
+  waiting?: boolean;
+  heldBy?: string;
+  callerSocket?: ServerWebSocket<WSData>;
+  calleeSocket?: ServerWebSocket<WSData>;
+}
 
 export interface CreateCallHistoryRequest {
   peerId?: string;
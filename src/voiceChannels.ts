@@ -0,0 +1,131 @@
+import type { ServerWebSocket } from "bun";
+import type { WSData } from "./types";
+import { rooms, voiceChannelWatchers } from "./state";
+import { supabase } from "./supabase";
+import { isRoomMember } from "./roomMembers";
+import { sendJson } from "./ws";
+import {
+  MISSING_COLUMN_ERROR_CODE,
+  MISSING_TABLE_ERROR_CODE,
+} from "./routes/shared";
+
+export const ROOM_TYPE_GROUP = "group";
+export const ROOM_TYPE_VOICE_CHANNEL = "voice-channel";
+
+const isMissingStorageError = (error: any) =>
+  Boolean(
+    error &&
+    (error.code === MISSING_TABLE_ERROR_CODE ||
+      error.code === MISSING_COLUMN_ERROR_CODE),
+  );
+
+export const normalizeRoomType = (value?: string | null) =>
+  value === ROOM_TYPE_VOICE_CHANNEL ? ROOM_TYPE_VOICE_CHANNEL : ROOM_TYPE_GROUP;
+
+export const getConnectedParticipants = (roomId: string) =>
+  Array.from(rooms.get(roomId)?.values() ?? []);
+
+const sendOccupancy = (ws: ServerWebSocket<WSData>, roomId: string) => {
+  sendJson(ws, {
+    type: "voice-channel-occupancy",
+    roomId,
+    participants: getConnectedParticipants(roomId),
+  });
+};
+
+export const notifyVoiceChannelOccupancy = (roomId: string) => {
+  const watchers = voiceChannelWatchers.get(roomId);
+  if (!watchers) return;
+  for (const ws of watchers) sendOccupancy(ws, roomId);
+};
+
+export const listMemberVoiceChannels = async (userId: string) => {
+  try {
+    const { data: memberships, error: membershipError } = await supabase
+      .from("room_members")
+      .select("room_id")
+      .eq("user_id", userId);
+    if (membershipError && !isMissingStorageError(membershipError)) {
+      console.warn(
+        "[VoiceChannels] Membership lookup failed:",
+        membershipError.message ?? membershipError,
+      );
+    }
+    const memberRoomIds = (memberships ?? [])
+      .map((row) => row.room_id as string)
+      .filter(Boolean);
+
+    const filter =
+      memberRoomIds.length > 0
+        ? `created_by.eq.${userId},id.in.(${memberRoomIds.join(",")})`
+        : `created_by.eq.${userId}`;
+    const { data, error } = await supabase
+      .from("rooms")
+      .select("*")
+      .eq("room_type", ROOM_TYPE_VOICE_CHANNEL)
+      .or(filter);
+    if (error) {
+      if (!isMissingStorageError(error)) {
+        console.warn("[VoiceChannels] Lookup failed:", error.message ?? error);
+      }
+      return [];
+    }
+    return (data ?? []).filter((room) => !room.archived_at);
+  } catch (err) {
+    console.warn("[VoiceChannels] Lookup error:", err);
+    return [];
+  }
+};
+
+export const watchVoiceChannel = async (
+  ws: ServerWebSocket<WSData>,
+  roomId: string,
+) => {
+  const { data: room, error } = await supabase
+    .from("rooms")
+    .select("room_type, created_by")
+    .eq("id", roomId)
+    .maybeSingle();
+  if (error && !isMissingStorageError(error)) {
+    return { ok: false, error: "Room error" };
+  }
+  if (room && room.room_type !== ROOM_TYPE_VOICE_CHANNEL) {
+    return { ok: false, error: "Room is not a voice channel" };
+  }
+  if (room?.created_by !== ws.data.userId) {
+    const membership = await isRoomMember(roomId, ws.data.userId);
+    if (membership.error) return { ok: false, error: "Room error" };
+    if (!membership.ok || !membership.supported) {
+      return { ok: false, error: "Forbidden" };
+    }
+  }
+
+  let watchers = voiceChannelWatchers.get(roomId);
+  if (!watchers) {
+    watchers = new Set();
+    voiceChannelWatchers.set(roomId, watchers);
+  }
+  watchers.add(ws);
+  if (!ws.data.watchedChannels) ws.data.watchedChannels = new Set();
+  ws.data.watchedChannels.add(roomId);
+  sendOccupancy(ws, roomId);
+  return { ok: true };
+};
+
+export const unwatchVoiceChannel = (
+  ws: ServerWebSocket<WSData>,
+  roomId: string,
+) => {
+  const watchers = voiceChannelWatchers.get(roomId);
+  if (watchers) {
+    watchers.delete(ws);
+    if (watchers.size === 0) voiceChannelWatchers.delete(roomId);
+  }
+  ws.data.watchedChannels?.delete(roomId);
+};
+
+export const unwatchAllVoiceChannels = (ws: ServerWebSocket<WSData>) => {
+  for (const roomId of Array.from(ws.data.watchedChannels ?? [])) {
+    unwatchVoiceChannel(ws, roomId);
+  }
+};
@@ -1,6 +1,11 @@
 import type { ServerWebSocket } from "bun";
 import type { WSData } from "./types";
 import { users, rooms, roomChats } from "./state";
+import {
+  recordEventForIdleUsers,
+  recordRoomChatEventForIdleUsers,
+  recordUserEvent,
+} from "./sessionResume";
 
 export function sendJson(
   ws: ServerWebSocket<WSData>,
@@ -10,10 +15,11 @@ export function sendJson(
 }
 
 export function sendToUser(userId: string, message: Record<string, any>) {
+  const payload = recordUserEvent(userId, message);
   const sockets = users.get(userId);
   if (!sockets || sockets.size === 0) return;
   for (const ws of sockets) {
-    sendJson(ws, message);
+    sendJson(ws, payload);
   }
 }
 
@@ -23,10 +29,16 @@ export function broadcast(
 ) {
   for (const [id, sockets] of users) {
     if (id === excludeUserId) continue;
+    const payload = recordUserEvent(id, message);
     for (const ws of sockets) {
-      sendJson(ws, message);
+      sendJson(ws, payload);
     }
   }
+  recordEventForIdleUsers(
+    message,
+    (userId) => (users.get(userId)?.size ?? 0) > 0,
+    excludeUserId,
+  );
 }
 
 export function broadcastToRoom(
@@ -36,7 +48,7 @@ export function broadcastToRoom(
 ) {
   const room = rooms.get(roomId);
   if (!room) return;
-  for (const userId of room) {
+  for (const userId of room.keys()) {
     if (userId !== excludeUserId) {
       sendToUser(userId, message);
     }
@@ -49,10 +61,15 @@ export function broadcastToRoomChat(
   excludeUserId?: string,
 ) {
   const room = roomChats.get(roomId);
-  if (!room) return;
-  for (const userId of room) {
+  for (const userId of room ?? []) {
     if (userId !== excludeUserId) {
       sendToUser(userId, message);
     }
   }
+  recordRoomChatEventForIdleUsers(
+    roomId,
+    message,
+    (userId) => Boolean(room?.has(userId)),
+    excludeUserId,
+  );
 }